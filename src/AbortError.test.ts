@@ -5,6 +5,7 @@ import {
   rethrowAbortError,
   throwIfAborted,
 } from './AbortError';
+import {testAbortReason} from './utils/abortReason';
 
 test('isAbortError', () => {
   expect(isAbortError({})).toBe(false);
@@ -14,6 +15,15 @@ test('isAbortError', () => {
   expect(isAbortError(new AbortError())).toBe(true);
 });
 
+test('reason', () => {
+  expect(new AbortError()).not.toHaveProperty('reason');
+  expect(new AbortError('shutdown')).toMatchObject({
+    message: 'The operation has been aborted',
+    reason: 'shutdown',
+    cause: 'shutdown',
+  });
+});
+
 test('throwIfAborted', () => {
   const abortController = new AbortController();
 
@@ -24,6 +34,16 @@ test('throwIfAborted', () => {
   expect(() => throwIfAborted(abortController.signal)).toThrow(AbortError);
 });
 
+testAbortReason('throwIfAborted with reason', () => {
+  const abortController = new AbortController();
+
+  abortController.abort('shutdown');
+
+  expect(() => throwIfAborted(abortController.signal)).toThrow(
+    expect.objectContaining({name: 'AbortError', reason: 'shutdown'}),
+  );
+});
+
 test('rethrowAbortError', () => {
   expect(() => rethrowAbortError(new AbortError())).toThrow(AbortError);
   expect(() => rethrowAbortError(new Error())).not.toThrow();
@@ -1,17 +1,34 @@
 /**
  * Thrown when an abortable function was aborted.
  *
+ * Carries the reason of abort taken from `AbortSignal.reason`, so that
+ * different kinds of abort, e.g. a timeout and a shutdown, can be told apart.
+ *
  * **Warning**: do not use `instanceof` with this class. Instead, use
  * `isAbortError` function.
  */
 export class AbortError extends Error {
-  constructor() {
+  /**
+   * The reason of abort, if any.
+   */
+  reason?: unknown;
+  /**
+   * Same as `reason`. Displayed by runtimes that support error causes.
+   */
+  cause?: unknown;
+
+  constructor(reason?: unknown) {
     super('The operation has been aborted');
 
     this.message = 'The operation has been aborted';
 
     this.name = 'AbortError';
 
+    if (reason !== undefined) {
+      this.reason = reason;
+      this.cause = reason;
+    }
+
     if (typeof Error.captureStackTrace === 'function') {
       Error.captureStackTrace(this, this.constructor);
     }
@@ -34,7 +51,7 @@ export function isAbortError(error: unknown): error is Error {
  */
 export function throwIfAborted(signal: AbortSignal): void {
   if (signal.aborted) {
-    throw new AbortError();
+    throw new AbortError(signal.reason);
   }
 }
 
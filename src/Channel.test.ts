@@ -0,0 +1,327 @@
+import {takeUntilAborted} from './abortableIterable';
+import {Channel, select} from './Channel';
+import {nextTick} from './utils/nextTick';
+
+test('unbuffered', async () => {
+  const signal = new AbortController().signal;
+
+  const channel = new Channel<number>();
+
+  let sent = false;
+
+  channel.send(signal, 1).then(() => {
+    sent = true;
+  });
+
+  await nextTick();
+
+  expect(sent).toBe(false);
+
+  await expect(channel.receive(signal)).resolves.toEqual({
+    done: false,
+    value: 1,
+  });
+
+  await nextTick();
+
+  expect(sent).toBe(true);
+});
+
+test('buffered', async () => {
+  const signal = new AbortController().signal;
+
+  const channel = new Channel<number>(2);
+
+  await channel.send(signal, 1);
+  await channel.send(signal, 2);
+
+  let sent = false;
+
+  channel.send(signal, 3).then(() => {
+    sent = true;
+  });
+
+  await nextTick();
+
+  expect(sent).toBe(false);
+
+  await expect(channel.receive(signal)).resolves.toEqual({
+    done: false,
+    value: 1,
+  });
+
+  await nextTick();
+
+  expect(sent).toBe(true);
+
+  await expect(channel.receive(signal)).resolves.toEqual({
+    done: false,
+    value: 2,
+  });
+  await expect(channel.receive(signal)).resolves.toEqual({
+    done: false,
+    value: 3,
+  });
+});
+
+test('abort sender', async () => {
+  const signal = new AbortController().signal;
+
+  const channel = new Channel<number>();
+
+  const abortController = new AbortController();
+  abortController.signal.addEventListener = jest.fn(
+    abortController.signal.addEventListener,
+  );
+  abortController.signal.removeEventListener = jest.fn(
+    abortController.signal.removeEventListener,
+  );
+
+  const promise = channel.send(abortController.signal, 1);
+
+  abortController.abort();
+
+  await expect(promise).rejects.toMatchObject({name: 'AbortError'});
+
+  channel.send(signal, 2);
+
+  await expect(channel.receive(signal)).resolves.toEqual({
+    done: false,
+    value: 2,
+  });
+
+  expect(abortController.signal.addEventListener).toHaveBeenCalledTimes(1);
+  expect(abortController.signal.removeEventListener).toHaveBeenCalledTimes(1);
+});
+
+test('abort receiver', async () => {
+  const signal = new AbortController().signal;
+
+  const channel = new Channel<number>();
+
+  const abortController = new AbortController();
+
+  const promise = channel.receive(abortController.signal);
+
+  abortController.abort();
+
+  await expect(promise).rejects.toMatchObject({name: 'AbortError'});
+
+  const received = channel.receive(signal);
+
+  await channel.send(signal, 1);
+
+  await expect(received).resolves.toEqual({done: false, value: 1});
+});
+
+test('close', async () => {
+  const signal = new AbortController().signal;
+
+  const channel = new Channel<number>(1);
+
+  await channel.send(signal, 1);
+
+  const pendingSend = channel.send(signal, 2);
+
+  channel.close();
+
+  await expect(pendingSend).rejects.toMatchObject({
+    name: 'ChannelClosedError',
+  });
+  await expect(channel.send(signal, 3)).rejects.toMatchObject({
+    name: 'ChannelClosedError',
+  });
+
+  await expect(channel.receive(signal)).resolves.toEqual({
+    done: false,
+    value: 1,
+  });
+  await expect(channel.receive(signal)).resolves.toEqual({
+    done: true,
+    value: undefined,
+  });
+});
+
+test('iterate', async () => {
+  const signal = new AbortController().signal;
+
+  const channel = new Channel<number>();
+
+  const values: number[] = [];
+
+  const promise = (async () => {
+    for await (const value of channel) {
+      values.push(value);
+    }
+  })();
+
+  await channel.send(signal, 1);
+  await channel.send(signal, 2);
+
+  channel.close();
+
+  await promise;
+
+  expect(values).toEqual([1, 2]);
+});
+
+test('takeUntilAborted', async () => {
+  const signal = new AbortController().signal;
+
+  const channel = new Channel<string>();
+
+  const abortController = new AbortController();
+
+  const values: string[] = [];
+
+  const promise = (async () => {
+    for await (const value of takeUntilAborted(
+      abortController.signal,
+      channel,
+    )) {
+      values.push(value);
+    }
+  })();
+
+  await channel.send(signal, 'first');
+  await nextTick();
+
+  abortController.abort();
+
+  await promise;
+  await nextTick();
+
+  // the pending receive of the iterator is cancelled
+  const received = channel.receive(signal);
+
+  await channel.send(signal, 'important');
+
+  await expect(received).resolves.toEqual({done: false, value: 'important'});
+
+  expect(values).toEqual(['first']);
+});
+
+test('abort iteration', async () => {
+  const signal = new AbortController().signal;
+
+  const channel = new Channel<number>();
+
+  const abortController = new AbortController();
+
+  const values: number[] = [];
+
+  const promise = (async () => {
+    for await (const value of channel.iterate(abortController.signal)) {
+      values.push(value);
+    }
+  })();
+
+  await channel.send(signal, 1);
+
+  abortController.abort();
+
+  await expect(promise).rejects.toMatchObject({name: 'AbortError'});
+
+  // the pending receive is cancelled
+  const received = channel.receive(signal);
+
+  await channel.send(signal, 2);
+
+  await expect(received).resolves.toEqual({done: false, value: 2});
+
+  expect(values).toEqual([1]);
+});
+
+test('select', async () => {
+  const signal = new AbortController().signal;
+
+  const channel1 = new Channel<number>();
+  const channel2 = new Channel<string>();
+
+  let result: string | undefined;
+
+  select(signal, [
+    channel1.receiveCase(result => `channel1: ${result.value}`),
+    channel2.receiveCase(result => `channel2: ${result.value}`),
+  ]).then(value => {
+    result = value;
+  });
+
+  await nextTick();
+
+  expect(result).toBeUndefined();
+
+  await channel2.send(signal, 'test');
+  await nextTick();
+
+  expect(result).toBe('channel2: test');
+
+  // the other case is not committed
+  let sent = false;
+
+  channel1.send(signal, 1).then(() => {
+    sent = true;
+  });
+
+  await nextTick();
+
+  expect(sent).toBe(false);
+
+  await expect(channel1.receive(signal)).resolves.toEqual({
+    done: false,
+    value: 1,
+  });
+});
+
+test('select ready case', async () => {
+  const signal = new AbortController().signal;
+
+  const channel1 = new Channel<number>();
+  const channel2 = new Channel<number>(1);
+
+  await expect(
+    select(signal, [
+      channel1.sendCase(1, () => 'channel1'),
+      channel2.sendCase(2, () => 'channel2'),
+    ]),
+  ).resolves.toBe('channel2');
+
+  await expect(channel2.receive(signal)).resolves.toEqual({
+    done: false,
+    value: 2,
+  });
+});
+
+test('select abort', async () => {
+  const signal = new AbortController().signal;
+
+  const channel1 = new Channel<number>();
+  const channel2 = new Channel<number>();
+
+  const abortController = new AbortController();
+
+  const promise = select(abortController.signal, [
+    channel1.sendCase(1, () => 'channel1'),
+    channel2.receiveCase(() => 'channel2'),
+  ]);
+
+  abortController.abort();
+
+  await expect(promise).rejects.toMatchObject({name: 'AbortError'});
+
+  let sent = false;
+
+  channel2.send(signal, 2).then(() => {
+    sent = true;
+  });
+
+  const received = channel1.receive(signal);
+
+  await nextTick();
+
+  expect(sent).toBe(false);
+
+  channel1.send(signal, 3);
+
+  await expect(received).resolves.toEqual({done: false, value: 3});
+});
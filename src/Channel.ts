@@ -0,0 +1,424 @@
+import {execute} from './execute';
+
+/**
+ * Thrown when sending to a closed channel.
+ *
+ * **Warning**: do not use `instanceof` with this class. Instead, use
+ * `isChannelClosedError` function.
+ */
+export class ChannelClosedError extends Error {
+  constructor() {
+    super('Send on closed channel');
+
+    this.message = 'Send on closed channel';
+
+    this.name = 'ChannelClosedError';
+
+    if (typeof Error.captureStackTrace === 'function') {
+      Error.captureStackTrace(this, this.constructor);
+    }
+  }
+}
+
+/**
+ * Checks whether given `error` is a `ChannelClosedError`.
+ */
+export function isChannelClosedError(error: unknown): error is Error {
+  return (
+    typeof error === 'object' &&
+    error !== null &&
+    (error as any).name === 'ChannelClosedError'
+  );
+}
+
+/**
+ * A channel operation for use with `select`. Created by `Channel.sendCase` and
+ * `Channel.receiveCase`.
+ */
+export type SelectCase<R> = {
+  /**
+   * Commits the operation if it can be done immediately, and returns a
+   * function that runs the case handler.
+   *
+   * @internal
+   */
+  poll(): (() => R) | undefined;
+  /**
+   * Enqueues the operation. The operation is committed by the counterpart
+   * unless `selection` is already done. Returns a function that dequeues it.
+   *
+   * @internal
+   */
+  wait(
+    selection: Selection,
+    commit: (run: () => R) => void,
+    fail: (error: unknown) => void,
+  ): () => void;
+};
+
+/**
+ * Shared by all operations of a single `select`. Once one of them is
+ * committed, others are skipped.
+ */
+type Selection = {done: boolean};
+
+type Sender<T> = {
+  selection: Selection;
+  value: T;
+  commit: () => void;
+  fail: (error: unknown) => void;
+};
+
+type Receiver<T> = {
+  selection: Selection;
+  commit: (result: IteratorResult<T, undefined>) => void;
+};
+
+/**
+ * Go-style channel with abortable `send` and `receive`.
+ *
+ * An unbuffered channel (`capacity` of 0, the default) completes a send only
+ * once a receiver takes the value. A buffered channel completes a send
+ * immediately while there is room in the buffer.
+ *
+ * Senders and receivers are served in first-in-first-out order. Once a send
+ * or receive is aborted, the value is neither delivered nor taken, so aborting
+ * never loses or duplicates a value.
+ *
+ * Example:
+ *
+ *     const channel = new Channel<Job>();
+ *
+ *     await spawn(signal, async (signal, {fork}) => {
+ *       fork(async signal => {
+ *         for await (const job of channel.iterate(signal)) {
+ *           await processJob(signal, job);
+ *         }
+ *       });
+ *
+ *       for (const job of jobs) {
+ *         await channel.send(signal, job);
+ *       }
+ *
+ *       channel.close();
+ *     });
+ */
+export class Channel<T> {
+  private readonly buffer: T[] = [];
+  private readonly senders: Array<Sender<T>> = [];
+  private readonly receivers: Array<Receiver<T>> = [];
+  private closed = false;
+
+  constructor(private readonly capacity: number = 0) {
+    if (!(capacity >= 0)) {
+      throw new RangeError(`Invalid channel capacity: ${capacity}`);
+    }
+  }
+
+  /**
+   * Returns a promise that fulfills once the value is taken by a receiver or
+   * put into the buffer, and rejects with `AbortError` once `signal` is
+   * aborted.
+   *
+   * Rejects with `ChannelClosedError` if the channel is closed before the value
+   * is sent.
+   */
+  send(signal: AbortSignal, value: T): Promise<void> {
+    return select(signal, [this.sendCase(value, () => {})]);
+  }
+
+  /**
+   * Returns a promise that fulfills with the next value, and rejects with
+   * `AbortError` once `signal` is aborted.
+   *
+   * Fulfills with `{done: true}` once the channel is closed and all buffered
+   * values are received.
+   */
+  receive(signal: AbortSignal): Promise<IteratorResult<T, undefined>> {
+    return select(signal, [this.receiveCase(result => result)]);
+  }
+
+  /**
+   * Closes the channel.
+   *
+   * Pending and subsequent sends reject with `ChannelClosedError`. Buffered
+   * values can still be received, after that receives fulfill with
+   * `{done: true}`.
+   *
+   * Closing a closed channel does nothing.
+   */
+  close(): void {
+    if (this.closed) {
+      return;
+    }
+
+    this.closed = true;
+
+    for (const receiver of this.receivers.splice(0)) {
+      if (!receiver.selection.done) {
+        receiver.selection.done = true;
+        receiver.commit({done: true, value: undefined});
+      }
+    }
+
+    for (const sender of this.senders.splice(0)) {
+      if (!sender.selection.done) {
+        sender.selection.done = true;
+        sender.fail(new ChannelClosedError());
+      }
+    }
+  }
+
+  /**
+   * Creates a `select` case that sends the value and then calls `fn`.
+   */
+  sendCase<R>(value: T, fn: () => R): SelectCase<R> {
+    return {
+      poll: () => (this.pollSend(value) ? fn : undefined),
+
+      wait: (selection, commit, fail) => {
+        const sender: Sender<T> = {
+          selection,
+          value,
+          commit: () => commit(fn),
+          fail,
+        };
+
+        this.senders.push(sender);
+
+        return () => {
+          removeItem(this.senders, sender);
+        };
+      },
+    };
+  }
+
+  /**
+   * Creates a `select` case that receives a value and then calls `fn` with it.
+   */
+  receiveCase<R>(
+    fn: (result: IteratorResult<T, undefined>) => R,
+  ): SelectCase<R> {
+    return {
+      poll: () => {
+        const result = this.pollReceive();
+
+        return result == null ? undefined : () => fn(result);
+      },
+
+      wait: (selection, commit) => {
+        const receiver: Receiver<T> = {
+          selection,
+          commit: result => commit(() => fn(result)),
+        };
+
+        this.receivers.push(receiver);
+
+        return () => {
+          removeItem(this.receivers, receiver);
+        };
+      },
+    };
+  }
+
+  /**
+   * Iterates over received values until the channel is closed. Iteration
+   * rejects with `AbortError` once `signal` is aborted.
+   *
+   * Prefer this over wrapping the channel with `abortableIterable`, which may
+   * drop a value received right before abort.
+   */
+  async *iterate(signal: AbortSignal): AsyncGenerator<T, void, undefined> {
+    while (true) {
+      const result = await this.receive(signal);
+
+      if (result.done) {
+        return;
+      }
+
+      yield result.value;
+    }
+  }
+
+  /**
+   * Iterates over received values until the channel is closed.
+   *
+   * Calling `return` on the iterator cancels a pending receive, so that a
+   * value sent after that is not lost, e.g. when the iteration is wrapped
+   * with `takeUntilAborted`.
+   */
+  [Symbol.asyncIterator](): AsyncIterator<T, undefined, undefined> {
+    const abortController = new AbortController();
+
+    return {
+      next: async () => {
+        if (abortController.signal.aborted) {
+          return {done: true, value: undefined};
+        }
+
+        return await this.receive(abortController.signal);
+      },
+
+      return: async () => {
+        abortController.abort();
+
+        return {done: true, value: undefined};
+      },
+    };
+  }
+
+  private pollSend(value: T): boolean {
+    if (this.closed) {
+      throw new ChannelClosedError();
+    }
+
+    while (this.receivers.length > 0) {
+      const receiver = this.receivers.shift()!;
+
+      if (!receiver.selection.done) {
+        receiver.selection.done = true;
+        receiver.commit({done: false, value});
+
+        return true;
+      }
+    }
+
+    if (this.buffer.length < this.capacity) {
+      this.buffer.push(value);
+
+      return true;
+    }
+
+    return false;
+  }
+
+  private pollReceive(): IteratorResult<T, undefined> | undefined {
+    if (this.buffer.length > 0) {
+      const value = this.buffer.shift()!;
+
+      // refill the buffer from a waiting sender
+      const sender = this.shiftSender();
+
+      if (sender != null) {
+        this.buffer.push(sender.value);
+        sender.commit();
+      }
+
+      return {done: false, value};
+    }
+
+    const sender = this.shiftSender();
+
+    if (sender != null) {
+      sender.commit();
+
+      return {done: false, value: sender.value};
+    }
+
+    if (this.closed) {
+      return {done: true, value: undefined};
+    }
+
+    return undefined;
+  }
+
+  private shiftSender(): Sender<T> | undefined {
+    while (this.senders.length > 0) {
+      const sender = this.senders.shift()!;
+
+      if (!sender.selection.done) {
+        sender.selection.done = true;
+
+        return sender;
+      }
+    }
+
+    return undefined;
+  }
+}
+
+/**
+ * Waits until one of the channel operations can be done, and commits exactly
+ * one of them.
+ *
+ * If several operations can be done immediately, the first one in order of
+ * `cases` is committed.
+ *
+ * Returns a promise that fulfills with the result of the handler of the
+ * committed case, and rejects with `AbortError` once `signal` is aborted. Once
+ * aborted, none of the operations is committed.
+ *
+ * Example:
+ *
+ *     const result = await select(signal, [
+ *       jobs.receiveCase(result => ({type: 'job', result} as const)),
+ *       results.sendCase(lastResult, () => ({type: 'sent'} as const)),
+ *     ]);
+ */
+export function select<R>(
+  signal: AbortSignal,
+  cases: ReadonlyArray<SelectCase<R>>,
+): Promise<R> {
+  return execute<R>(signal, (resolve, reject) => {
+    const run = (fn: () => R) => {
+      try {
+        resolve(fn());
+      } catch (error) {
+        reject(error);
+      }
+    };
+
+    for (const selectCase of cases) {
+      let fn: (() => R) | undefined;
+
+      try {
+        fn = selectCase.poll();
+      } catch (error) {
+        reject(error);
+
+        return () => {};
+      }
+
+      if (fn != null) {
+        run(fn);
+
+        return () => {};
+      }
+    }
+
+    const selection: Selection = {done: false};
+
+    const dequeue = () => {
+      for (const cancel of cancels) {
+        cancel();
+      }
+    };
+
+    const cancels = cases.map(selectCase =>
+      selectCase.wait(
+        selection,
+        fn => {
+          dequeue();
+          run(fn);
+        },
+        error => {
+          dequeue();
+          reject(error);
+        },
+      ),
+    );
+
+    return () => {
+      selection.done = true;
+      dequeue();
+    };
+  });
+}
+
+function removeItem<T>(array: T[], item: T): void {
+  const index = array.indexOf(item);
+
+  if (index !== -1) {
+    array.splice(index, 1);
+  }
+}
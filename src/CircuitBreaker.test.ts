@@ -0,0 +1,215 @@
+import defer from 'defer-promise';
+import {AbortError} from './AbortError';
+import {CircuitBreaker} from './CircuitBreaker';
+import {VirtualClock} from './VirtualClock';
+import {waitForEvent} from './waitForEvent';
+
+const signal = new AbortController().signal;
+
+async function fail(): Promise<never> {
+  throw new Error('test');
+}
+
+async function succeed(): Promise<string> {
+  return 'test';
+}
+
+test('consecutive failures', async () => {
+  const breaker = new CircuitBreaker({consecutiveFailureThreshold: 3});
+
+  await expect(breaker.execute(signal, fail)).rejects.toThrow('test');
+  await expect(breaker.execute(signal, fail)).rejects.toThrow('test');
+  await expect(breaker.execute(signal, succeed)).resolves.toBe('test');
+  await expect(breaker.execute(signal, fail)).rejects.toThrow('test');
+  await expect(breaker.execute(signal, fail)).rejects.toThrow('test');
+
+  expect(breaker.state).toBe('closed');
+
+  await expect(breaker.execute(signal, fail)).rejects.toThrow('test');
+
+  expect(breaker.state).toBe('open');
+
+  const fn = jest.fn(succeed);
+
+  await expect(breaker.execute(signal, fn)).rejects.toMatchObject({
+    name: 'CircuitBreakerOpenError',
+  });
+
+  expect(fn).not.toHaveBeenCalled();
+});
+
+test('failure rate', async () => {
+  const breaker = new CircuitBreaker({
+    failureRateThreshold: 0.5,
+    slidingWindowSize: 4,
+    minimumCalls: 4,
+  });
+
+  await breaker.execute(signal, fail).catch(() => {});
+  await breaker.execute(signal, fail).catch(() => {});
+  await breaker.execute(signal, fail).catch(() => {});
+
+  expect(breaker.state).toBe('closed');
+
+  await breaker.execute(signal, succeed);
+
+  expect(breaker.state).toBe('open');
+});
+
+test('sliding window', async () => {
+  const breaker = new CircuitBreaker({
+    failureRateThreshold: 0.5,
+    slidingWindowSize: 4,
+    minimumCalls: 4,
+  });
+
+  await breaker.execute(signal, fail).catch(() => {});
+  await breaker.execute(signal, succeed);
+  await breaker.execute(signal, succeed);
+  await breaker.execute(signal, succeed);
+  // the first failure is out of the window
+  await breaker.execute(signal, fail).catch(() => {});
+
+  expect(breaker.state).toBe('closed');
+
+  await breaker.execute(signal, fail).catch(() => {});
+
+  expect(breaker.state).toBe('open');
+});
+
+test('ignore aborts', async () => {
+  const breaker = new CircuitBreaker({consecutiveFailureThreshold: 1});
+
+  await expect(
+    breaker.execute(signal, async () => {
+      throw new AbortError();
+    }),
+  ).rejects.toMatchObject({name: 'AbortError'});
+
+  expect(breaker.state).toBe('closed');
+});
+
+test('isFailure', async () => {
+  const breaker = new CircuitBreaker({
+    consecutiveFailureThreshold: 1,
+    isFailure: error => (error as Error).message !== 'not found',
+  });
+
+  await expect(
+    breaker.execute(signal, async () => {
+      throw new Error('not found');
+    }),
+  ).rejects.toThrow('not found');
+
+  expect(breaker.state).toBe('closed');
+});
+
+test('half-open', async () => {
+  const clock = new VirtualClock();
+
+  const breaker = new CircuitBreaker({
+    clock,
+    consecutiveFailureThreshold: 1,
+    openDurationMs: 1000,
+    halfOpenMaxCalls: 2,
+  });
+
+  const events: unknown[] = [];
+
+  breaker.addListener('stateChange', event => {
+    events.push(event);
+  });
+
+  await breaker.execute(signal, fail).catch(() => {});
+
+  await clock.advance(1000);
+
+  expect(breaker.state).toBe('half-open');
+
+  const probe1 = defer<string>();
+  const probe2 = defer<string>();
+
+  const result1 = breaker.execute(signal, () => probe1.promise);
+  const result2 = breaker.execute(signal, () => probe2.promise);
+
+  await expect(breaker.execute(signal, succeed)).rejects.toMatchObject({
+    name: 'CircuitBreakerOpenError',
+  });
+
+  probe1.resolve('test');
+  await result1;
+
+  expect(breaker.state).toBe('half-open');
+
+  probe2.resolve('test');
+  await result2;
+
+  expect(breaker.state).toBe('closed');
+
+  expect(events).toEqual([
+    {state: 'open', previousState: 'closed'},
+    {state: 'half-open', previousState: 'open'},
+    {state: 'closed', previousState: 'half-open'},
+  ]);
+});
+
+test('half-open failure', async () => {
+  const clock = new VirtualClock();
+
+  const breaker = new CircuitBreaker({
+    clock,
+    consecutiveFailureThreshold: 1,
+    openDurationMs: 1000,
+  });
+
+  await breaker.execute(signal, fail).catch(() => {});
+
+  await clock.advance(1000);
+
+  await breaker.execute(signal, fail).catch(() => {});
+
+  expect(breaker.state).toBe('open');
+
+  await clock.advance(999);
+
+  expect(breaker.state).toBe('open');
+});
+
+test('aborted probe releases slot', async () => {
+  const clock = new VirtualClock();
+
+  const breaker = new CircuitBreaker({
+    clock,
+    consecutiveFailureThreshold: 1,
+    openDurationMs: 1000,
+  });
+
+  await breaker.execute(signal, fail).catch(() => {});
+
+  await clock.advance(1000);
+
+  await expect(
+    breaker.execute(signal, async () => {
+      throw new AbortError();
+    }),
+  ).rejects.toMatchObject({name: 'AbortError'});
+
+  await expect(breaker.execute(signal, succeed)).resolves.toBe('test');
+
+  expect(breaker.state).toBe('closed');
+});
+
+test('waitForEvent', async () => {
+  const breaker = new CircuitBreaker({consecutiveFailureThreshold: 1});
+
+  breaker.open();
+
+  const promise = waitForEvent(signal, breaker, 'closed');
+
+  breaker.close();
+
+  await expect(promise).resolves.toEqual({
+    state: 'closed',
+    previousState: 'open',
+  });
+});
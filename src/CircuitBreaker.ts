@@ -0,0 +1,415 @@
+import {isAbortError, throwIfAborted} from './AbortError';
+import {Clock, systemClock} from './Clock';
+import {EventTargetLike} from './waitForEvent';
+
+/**
+ * Thrown by `CircuitBreaker.execute` when the breaker does not permit calls.
+ *
+ * **Warning**: do not use `instanceof` with this class. Instead, use
+ * `isCircuitBreakerOpenError` function.
+ */
+export class CircuitBreakerOpenError extends Error {
+  constructor() {
+    super('Circuit breaker is open');
+
+    this.message = 'Circuit breaker is open';
+
+    this.name = 'CircuitBreakerOpenError';
+
+    if (typeof Error.captureStackTrace === 'function') {
+      Error.captureStackTrace(this, this.constructor);
+    }
+  }
+}
+
+/**
+ * Checks whether given `error` is a `CircuitBreakerOpenError`.
+ */
+export function isCircuitBreakerOpenError(error: unknown): error is Error {
+  return (
+    typeof error === 'object' &&
+    error !== null &&
+    (error as any).name === 'CircuitBreakerOpenError'
+  );
+}
+
+/**
+ * - `'closed'`: calls are permitted, and their outcomes are counted.
+ * - `'open'`: calls are rejected with `CircuitBreakerOpenError`.
+ * - `'half-open'`: a limited number of probe calls are permitted to check
+ *   whether the underlying service has recovered.
+ */
+export type CircuitBreakerState = 'closed' | 'open' | 'half-open';
+
+export type CircuitBreakerStateChangeEvent = {
+  state: CircuitBreakerState;
+  previousState: CircuitBreakerState;
+};
+
+export type CircuitBreakerOptions = {
+  /**
+   * Failure rate from 0 to 1 among the last `slidingWindowSize` calls at which
+   * the breaker opens.
+   *
+   * Defaults to 0.5.
+   */
+  failureRateThreshold?: number;
+  /**
+   * Number of last calls used to compute the failure rate.
+   *
+   * Defaults to 100.
+   */
+  slidingWindowSize?: number;
+  /**
+   * Minimum number of calls in the sliding window before the failure rate is
+   * taken into account.
+   *
+   * Defaults to 10.
+   */
+  minimumCalls?: number;
+  /**
+   * Number of consecutive failures at which the breaker opens regardless of
+   * the failure rate.
+   *
+   * Defaults to `Infinity`.
+   */
+  consecutiveFailureThreshold?: number;
+  /**
+   * Time in milliseconds the breaker stays open before permitting probe calls.
+   *
+   * Defaults to 30 seconds.
+   */
+  openDurationMs?: number;
+  /**
+   * Maximum number of concurrent probe calls in half-open state. Once that
+   * many probes succeed, the breaker closes. Once any of them fails, the
+   * breaker opens again.
+   *
+   * Defaults to 1.
+   */
+  halfOpenMaxCalls?: number;
+  /**
+   * Decides whether an error counts as a failure. Errors that are not counted
+   * as failures count as successes.
+   *
+   * `AbortError` is never counted.
+   *
+   * Defaults to counting every error.
+   */
+  isFailure?: (error: unknown) => boolean;
+  /**
+   * Clock used to measure time.
+   *
+   * Defaults to `systemClock`.
+   */
+  clock?: Clock;
+};
+
+type Permission = {
+  /**
+   * Number of the state the call was permitted in. Outcomes of calls started
+   * before the last state change are ignored.
+   */
+  generation: number;
+};
+
+/**
+ * Circuit breaker that fails fast while the underlying service is unhealthy.
+ *
+ * Aborted calls, i.e. ones that reject with `AbortError`, are not counted as
+ * failures.
+ *
+ * Emits `'stateChange'` event on each state change, as well as an event named
+ * after the new state, e.g. `'closed'`, with `CircuitBreakerStateChangeEvent`.
+ * The breaker is a Node-style event emitter, so it can be used with
+ * `waitForEvent`.
+ *
+ * Example:
+ *
+ *     const breaker = new CircuitBreaker({consecutiveFailureThreshold: 5});
+ *
+ *     const response = await retry(signal, signal =>
+ *       breaker.execute(signal, signal => makeRequest(signal, params)),
+ *     );
+ *
+ *     // elsewhere: pause background work until requests succeed again
+ *     if (breaker.state !== 'closed') {
+ *       await waitForEvent(signal, breaker, 'closed');
+ *     }
+ */
+export class CircuitBreaker implements EventTargetLike.NodeStyleEventEmitter {
+  private readonly failureRateThreshold: number;
+  private readonly minimumCalls: number;
+  private readonly consecutiveFailureThreshold: number;
+  private readonly openDurationMs: number;
+  private readonly halfOpenMaxCalls: number;
+  private readonly isFailure: (error: unknown) => boolean;
+  private readonly clock: Clock;
+
+  private currentState: CircuitBreakerState = 'closed';
+  private generation = 0;
+  private openedAt = 0;
+
+  /**
+   * Outcomes of the last calls in closed state, `true` for failures.
+   */
+  private readonly window: boolean[];
+  private windowIndex = 0;
+  private windowCalls = 0;
+  private windowFailures = 0;
+  private consecutiveFailures = 0;
+
+  private halfOpenCalls = 0;
+  private halfOpenSuccesses = 0;
+
+  private readonly listeners = new Map<
+    string | symbol,
+    Set<EventTargetLike.NodeEventHandler>
+  >();
+
+  constructor(options: CircuitBreakerOptions = {}) {
+    const {
+      failureRateThreshold = 0.5,
+      slidingWindowSize = 100,
+      minimumCalls = 10,
+      consecutiveFailureThreshold = Infinity,
+      openDurationMs = 30000,
+      halfOpenMaxCalls = 1,
+      isFailure = () => true,
+      clock = systemClock,
+    } = options;
+
+    if (!(slidingWindowSize >= 1 && slidingWindowSize < Infinity)) {
+      throw new RangeError(`Invalid sliding window size: ${slidingWindowSize}`);
+    }
+
+    if (!(halfOpenMaxCalls >= 1)) {
+      throw new RangeError(`Invalid half-open max calls: ${halfOpenMaxCalls}`);
+    }
+
+    this.failureRateThreshold = failureRateThreshold;
+    this.minimumCalls = minimumCalls;
+    this.consecutiveFailureThreshold = consecutiveFailureThreshold;
+    this.openDurationMs = openDurationMs;
+    this.halfOpenMaxCalls = halfOpenMaxCalls;
+    this.isFailure = isFailure;
+    this.clock = clock;
+
+    this.window = new Array<boolean>(slidingWindowSize).fill(false);
+  }
+
+  /**
+   * Current state of the breaker.
+   *
+   * The breaker changes from open to half-open state once `openDurationMs`
+   * passes and either this property is read or `execute` is called.
+   */
+  get state(): CircuitBreakerState {
+    this.checkOpenDuration();
+
+    return this.currentState;
+  }
+
+  /**
+   * Calls `fn` if the breaker permits it, and counts the outcome.
+   *
+   * Returns a promise that fulfills or rejects with the result of `fn`, and
+   * rejects with `CircuitBreakerOpenError` right away if the breaker is open or
+   * all probe calls are in use in half-open state.
+   */
+  async execute<T>(
+    signal: AbortSignal,
+    fn: (signal: AbortSignal) => PromiseLike<T>,
+  ): Promise<T> {
+    throwIfAborted(signal);
+
+    const permission = this.acquirePermission();
+
+    let value: T;
+
+    try {
+      value = await fn(signal);
+    } catch (error) {
+      if (isAbortError(error)) {
+        this.recordAbort(permission);
+      } else {
+        this.recordOutcome(permission, this.isFailure(error));
+      }
+
+      throw error;
+    }
+
+    this.recordOutcome(permission, false);
+
+    return value;
+  }
+
+  /**
+   * Opens the breaker manually.
+   */
+  open(): void {
+    this.transition('open');
+  }
+
+  /**
+   * Closes the breaker manually and resets the counted outcomes.
+   */
+  close(): void {
+    this.transition('closed');
+  }
+
+  addListener(
+    eventName: string | symbol,
+    handler: EventTargetLike.NodeEventHandler,
+  ): this {
+    let handlers = this.listeners.get(eventName);
+
+    if (handlers == null) {
+      handlers = new Set();
+      this.listeners.set(eventName, handlers);
+    }
+
+    handlers.add(handler);
+
+    return this;
+  }
+
+  removeListener(
+    eventName: string | symbol,
+    handler: EventTargetLike.NodeEventHandler,
+  ): this {
+    const handlers = this.listeners.get(eventName);
+
+    if (handlers != null) {
+      handlers.delete(handler);
+
+      if (handlers.size === 0) {
+        this.listeners.delete(eventName);
+      }
+    }
+
+    return this;
+  }
+
+  private acquirePermission(): Permission {
+    this.checkOpenDuration();
+
+    switch (this.currentState) {
+      case 'closed':
+        break;
+      case 'open':
+        throw new CircuitBreakerOpenError();
+      case 'half-open':
+        if (this.halfOpenCalls >= this.halfOpenMaxCalls) {
+          throw new CircuitBreakerOpenError();
+        }
+
+        this.halfOpenCalls += 1;
+        break;
+    }
+
+    return {generation: this.generation};
+  }
+
+  private recordAbort(permission: Permission): void {
+    if (
+      permission.generation === this.generation &&
+      this.currentState === 'half-open'
+    ) {
+      this.halfOpenCalls -= 1;
+    }
+  }
+
+  private recordOutcome(permission: Permission, failure: boolean): void {
+    if (permission.generation !== this.generation) {
+      return;
+    }
+
+    if (this.currentState === 'half-open') {
+      if (failure) {
+        this.transition('open');
+      } else {
+        this.halfOpenSuccesses += 1;
+
+        if (this.halfOpenSuccesses >= this.halfOpenMaxCalls) {
+          this.transition('closed');
+        }
+      }
+
+      return;
+    }
+
+    if (
+      this.window[this.windowIndex] &&
+      this.windowCalls === this.window.length
+    ) {
+      this.windowFailures -= 1;
+    }
+
+    this.window[this.windowIndex] = failure;
+    this.windowIndex = (this.windowIndex + 1) % this.window.length;
+    this.windowCalls = Math.min(this.windowCalls + 1, this.window.length);
+
+    if (failure) {
+      this.windowFailures += 1;
+      this.consecutiveFailures += 1;
+    } else {
+      this.consecutiveFailures = 0;
+    }
+
+    if (
+      this.consecutiveFailures >= this.consecutiveFailureThreshold ||
+      (this.windowCalls >= this.minimumCalls &&
+        this.windowFailures / this.windowCalls >= this.failureRateThreshold)
+    ) {
+      this.transition('open');
+    }
+  }
+
+  private checkOpenDuration(): void {
+    if (
+      this.currentState === 'open' &&
+      this.clock.now() - this.openedAt >= this.openDurationMs
+    ) {
+      this.transition('half-open');
+    }
+  }
+
+  private transition(state: CircuitBreakerState): void {
+    const previousState = this.currentState;
+
+    this.currentState = state;
+    this.generation += 1;
+
+    this.window.fill(false);
+    this.windowIndex = 0;
+    this.windowCalls = 0;
+    this.windowFailures = 0;
+    this.consecutiveFailures = 0;
+    this.halfOpenCalls = 0;
+    this.halfOpenSuccesses = 0;
+
+    if (state === 'open') {
+      this.openedAt = this.clock.now();
+    }
+
+    if (state === previousState) {
+      return;
+    }
+
+    const event: CircuitBreakerStateChangeEvent = {state, previousState};
+
+    this.emit('stateChange', event);
+    this.emit(state, event);
+  }
+
+  private emit(eventName: string, event: CircuitBreakerStateChangeEvent): void {
+    const handlers = this.listeners.get(eventName);
+
+    if (handlers != null) {
+      for (const handler of Array.from(handlers)) {
+        handler(event);
+      }
+    }
+  }
+}
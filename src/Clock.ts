@@ -0,0 +1,39 @@
+/**
+ * Source of time and randomness for timing functions such as `delay` and
+ * `retry`.
+ *
+ * Timing functions accept a clock via `clock` option and default to
+ * `systemClock`. Use `VirtualClock` in tests to control time.
+ */
+export type Clock = {
+  /**
+   * Returns current Unix time in milliseconds.
+   */
+  now(): number;
+  /**
+   * Schedules `callback` to be called after `ms` milliseconds, and returns a
+   * handle for `clearTimeout`.
+   */
+  setTimeout(callback: () => void, ms: number): unknown;
+  /**
+   * Cancels a callback scheduled with `setTimeout`.
+   */
+  clearTimeout(handle: unknown): void;
+  /**
+   * Returns a random number from 0 inclusive to 1 exclusive. Used for jitter.
+   */
+  random(): number;
+};
+
+/**
+ * Clock backed by `Date.now`, global `setTimeout` and `clearTimeout`, and
+ * `Math.random`.
+ */
+export const systemClock: Clock = {
+  now: () => Date.now(),
+  setTimeout: (callback, ms) => setTimeout(callback, ms),
+  clearTimeout: handle => {
+    clearTimeout(handle as ReturnType<typeof setTimeout>);
+  },
+  random: () => Math.random(),
+};
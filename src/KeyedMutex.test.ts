@@ -0,0 +1,56 @@
+import {KeyedMutex} from './KeyedMutex';
+import {nextTick} from './utils/nextTick';
+
+test('lock per key', async () => {
+  const signal = new AbortController().signal;
+
+  const locks = new KeyedMutex();
+
+  const actions: string[] = [];
+
+  const releaseA = await locks.acquire(signal, 'a');
+  const releaseB = await locks.acquire(signal, 'b');
+
+  expect(locks.size).toBe(2);
+
+  locks.acquire(signal, 'a').then(release => {
+    actions.push('acquired a');
+    release();
+  });
+
+  await nextTick();
+
+  expect(actions).toEqual([]);
+
+  releaseB();
+
+  expect(locks.size).toBe(1);
+
+  releaseA();
+  await nextTick();
+
+  expect(actions).toEqual(['acquired a']);
+  expect(locks.size).toBe(0);
+});
+
+test('cleanup after abort', async () => {
+  const signal = new AbortController().signal;
+
+  const locks = new KeyedMutex();
+
+  const release = await locks.acquire(signal, 'a');
+
+  const abortController = new AbortController();
+
+  const promise = locks.withLock(abortController.signal, 'a', async () => {});
+
+  abortController.abort();
+
+  await expect(promise).rejects.toMatchObject({name: 'AbortError'});
+
+  expect(locks.size).toBe(1);
+
+  release();
+
+  expect(locks.size).toBe(0);
+});
@@ -0,0 +1,94 @@
+import {Mutex} from './Semaphore';
+
+/**
+ * A set of mutexes, one per key, with abortable `acquire`.
+ *
+ * A mutex for a key is created on first use and removed once it is neither
+ * held nor awaited.
+ *
+ * Example:
+ *
+ *     const locks = new KeyedMutex<string>();
+ *
+ *     await locks.withLock(signal, userId, async signal => {
+ *       const user = await loadUser(signal, userId);
+ *       await saveUser(signal, updateUser(user));
+ *     });
+ */
+export class KeyedMutex<K = string> {
+  private readonly entries = new Map<K, {mutex: Mutex; refCount: number}>();
+
+  /**
+   * Number of keys whose mutexes are held or awaited.
+   */
+  get size(): number {
+    return this.entries.size;
+  }
+
+  /**
+   * Returns a promise that fulfills with a release function once the mutex for
+   * `key` is acquired, and rejects with `AbortError` once `signal` is aborted.
+   *
+   * The release function must be called exactly once. Subsequent calls do
+   * nothing.
+   */
+  acquire(signal: AbortSignal, key: K): Promise<() => void> {
+    let entry = this.entries.get(key);
+
+    if (entry == null) {
+      entry = {mutex: new Mutex(), refCount: 0};
+      this.entries.set(key, entry);
+    }
+
+    const currentEntry = entry;
+    currentEntry.refCount += 1;
+
+    const unref = () => {
+      currentEntry.refCount -= 1;
+
+      if (currentEntry.refCount === 0) {
+        this.entries.delete(key);
+      }
+    };
+
+    return currentEntry.mutex.acquire(signal).then(
+      release => {
+        let released = false;
+
+        return () => {
+          if (released) {
+            return;
+          }
+
+          released = true;
+
+          release();
+          unref();
+        };
+      },
+      error => {
+        unref();
+
+        throw error;
+      },
+    );
+  }
+
+  /**
+   * Acquires the mutex for `key`, runs an abortable function and releases the
+   * mutex once the function finishes.
+   */
+  async withLock<T>(
+    signal: AbortSignal,
+    key: K,
+    fn: (signal: AbortSignal) => Promise<T>,
+  ): Promise<T> {
+    const release = await this.acquire(signal, key);
+
+    try {
+      return await fn(signal);
+    } finally {
+      release();
+    }
+  }
+}
@@ -0,0 +1,45 @@
+import {LatencyHistogram} from './LatencyHistogram';
+
+test('percentile', () => {
+  const histogram = new LatencyHistogram({minSamples: 1});
+
+  expect(histogram.percentile(0.5)).toBeUndefined();
+
+  for (let i = 100; i > 0; i--) {
+    histogram.record(i);
+  }
+
+  expect(histogram.size).toBe(100);
+  expect(histogram.percentile(0)).toBe(1);
+  expect(histogram.percentile(0.5)).toBe(50);
+  expect(histogram.percentile(0.95)).toBe(95);
+  expect(histogram.percentile(1)).toBe(100);
+});
+
+test('min samples', () => {
+  const histogram = new LatencyHistogram({minSamples: 3});
+
+  histogram.record(10);
+  histogram.record(20);
+
+  expect(histogram.percentile(0.5)).toBeUndefined();
+
+  histogram.record(30);
+
+  expect(histogram.percentile(0.5)).toBe(20);
+});
+
+test('window', () => {
+  const histogram = new LatencyHistogram({windowSize: 3, minSamples: 1});
+
+  histogram.record(100);
+  histogram.record(1);
+  histogram.record(2);
+
+  expect(histogram.percentile(1)).toBe(100);
+
+  histogram.record(3);
+
+  expect(histogram.size).toBe(3);
+  expect(histogram.percentile(1)).toBe(3);
+});
@@ -0,0 +1,81 @@
+export type LatencyHistogramOptions = {
+  /**
+   * Number of last samples kept.
+   *
+   * Defaults to 1000.
+   */
+  windowSize?: number;
+  /**
+   * Minimum number of samples before percentiles are reported.
+   *
+   * Defaults to 20.
+   */
+  minSamples?: number;
+};
+
+/**
+ * Rolling window of latency samples used for adaptive hedging in
+ * `proactiveRetry`.
+ *
+ * Share one histogram between calls of the same kind, e.g. per RPC method, so
+ * that hedges are timed according to the observed latency of that call.
+ */
+export class LatencyHistogram {
+  private readonly windowSize: number;
+  private readonly minSamples: number;
+  private readonly samples: number[] = [];
+  private index = 0;
+  private sorted: number[] | undefined;
+
+  constructor(options: LatencyHistogramOptions = {}) {
+    const {windowSize = 1000, minSamples = 20} = options;
+
+    if (!(windowSize >= 1 && windowSize < Infinity)) {
+      throw new RangeError(`Invalid window size: ${windowSize}`);
+    }
+
+    this.windowSize = windowSize;
+    this.minSamples = minSamples;
+  }
+
+  /**
+   * Number of samples in the window.
+   */
+  get size(): number {
+    return this.samples.length;
+  }
+
+  /**
+   * Adds a sample, replacing the oldest one once the window is full.
+   */
+  record(latencyMs: number): void {
+    if (this.samples.length < this.windowSize) {
+      this.samples.push(latencyMs);
+    } else {
+      this.samples[this.index] = latencyMs;
+      this.index = (this.index + 1) % this.windowSize;
+    }
+
+    this.sorted = undefined;
+  }
+
+  /**
+   * Returns the latency below which the given fraction of samples fall, e.g.
+   * `percentile(0.95)` for p95.
+   *
+   * Returns `undefined` if there are fewer than `minSamples` samples.
+   */
+  percentile(fraction: number): number | undefined {
+    if (this.samples.length === 0 || this.samples.length < this.minSamples) {
+      return undefined;
+    }
+
+    if (this.sorted == null) {
+      this.sorted = this.samples.slice().sort((a, b) => a - b);
+    }
+
+    const rank = Math.ceil(fraction * this.sorted.length) - 1;
+
+    return this.sorted[Math.min(Math.max(rank, 0), this.sorted.length - 1)];
+  }
+}
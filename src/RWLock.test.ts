@@ -0,0 +1,104 @@
+import {RWLock} from './RWLock';
+import {nextTick} from './utils/nextTick';
+
+test('readers share, writers exclude', async () => {
+  const signal = new AbortController().signal;
+
+  const lock = new RWLock();
+
+  const actions: string[] = [];
+
+  const releaseRead1 = await lock.acquireRead(signal);
+  const releaseRead2 = await lock.acquireRead(signal);
+
+  lock.acquireWrite(signal).then(release => {
+    actions.push('write');
+    release();
+  });
+
+  // queued after the writer
+  lock.acquireRead(signal).then(release => {
+    actions.push('read 3');
+    release();
+  });
+
+  await nextTick();
+
+  expect(actions).toEqual([]);
+
+  releaseRead1();
+  await nextTick();
+
+  expect(actions).toEqual([]);
+
+  releaseRead2();
+  await nextTick();
+
+  expect(actions).toEqual(['write', 'read 3']);
+});
+
+test('abort waiting writer', async () => {
+  const signal = new AbortController().signal;
+
+  const lock = new RWLock();
+
+  const actions: string[] = [];
+
+  const releaseRead = await lock.acquireRead(signal);
+
+  const abortController = new AbortController();
+
+  lock.acquireWrite(abortController.signal).catch(error => {
+    actions.push(`write: ${error.name}`);
+  });
+
+  lock.acquireRead(signal).then(release => {
+    actions.push('read 2');
+    release();
+  });
+
+  await nextTick();
+
+  expect(actions).toEqual([]);
+
+  abortController.abort();
+  await nextTick();
+
+  expect(actions).toEqual(['read 2', 'write: AbortError']);
+
+  releaseRead();
+
+  await expect(lock.acquireWrite(signal)).resolves.toBeInstanceOf(Function);
+});
+
+test('withWriteLock', async () => {
+  const signal = new AbortController().signal;
+
+  const lock = new RWLock();
+
+  const actions: string[] = [];
+
+  await Promise.all([
+    lock.withReadLock(signal, async () => {
+      actions.push('start read 1');
+      await nextTick();
+      actions.push('finish read 1');
+    }),
+    lock.withReadLock(signal, async () => {
+      actions.push('start read 2');
+      await nextTick();
+      actions.push('finish read 2');
+    }),
+    lock.withWriteLock(signal, async () => {
+      actions.push('write');
+    }),
+  ]);
+
+  expect(actions).toEqual([
+    'start read 1',
+    'start read 2',
+    'finish read 1',
+    'finish read 2',
+    'write',
+  ]);
+});
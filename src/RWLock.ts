@@ -0,0 +1,155 @@
+import {execute} from './execute';
+
+/**
+ * Readers-writer lock with abortable `acquire`.
+ *
+ * Multiple readers may hold the lock at the same time, while a writer holds it
+ * exclusively. Waiters are served in first-in-first-out order, so a waiting
+ * writer is not starved by readers that come after it. A waiter whose signal
+ * is aborted is removed from the queue without taking the lock.
+ *
+ * Example:
+ *
+ *     const lock = new RWLock();
+ *
+ *     const value = await lock.withReadLock(signal, async signal => {
+ *       return await cache.get(signal, key);
+ *     });
+ */
+export class RWLock {
+  private readers = 0;
+  private writer = false;
+  private readonly waiters: Array<{
+    mode: 'read' | 'write';
+    grant: () => void;
+  }> = [];
+
+  /**
+   * Returns a promise that fulfills with a release function once the lock is
+   * acquired for reading, and rejects with `AbortError` once `signal` is
+   * aborted.
+   *
+   * The release function must be called exactly once. Subsequent calls do
+   * nothing.
+   */
+  acquireRead(signal: AbortSignal): Promise<() => void> {
+    return this.acquire(signal, 'read');
+  }
+
+  /**
+   * Returns a promise that fulfills with a release function once the lock is
+   * acquired for writing, and rejects with `AbortError` once `signal` is
+   * aborted.
+   *
+   * The release function must be called exactly once. Subsequent calls do
+   * nothing.
+   */
+  acquireWrite(signal: AbortSignal): Promise<() => void> {
+    return this.acquire(signal, 'write');
+  }
+
+  /**
+   * Acquires the lock for reading, runs an abortable function and releases
+   * the lock once the function finishes.
+   */
+  async withReadLock<T>(
+    signal: AbortSignal,
+    fn: (signal: AbortSignal) => Promise<T>,
+  ): Promise<T> {
+    const release = await this.acquireRead(signal);
+
+    try {
+      return await fn(signal);
+    } finally {
+      release();
+    }
+  }
+
+  /**
+   * Acquires the lock for writing, runs an abortable function and releases
+   * the lock once the function finishes.
+   */
+  async withWriteLock<T>(
+    signal: AbortSignal,
+    fn: (signal: AbortSignal) => Promise<T>,
+  ): Promise<T> {
+    const release = await this.acquireWrite(signal);
+
+    try {
+      return await fn(signal);
+    } finally {
+      release();
+    }
+  }
+
+  private acquire(
+    signal: AbortSignal,
+    mode: 'read' | 'write',
+  ): Promise<() => void> {
+    return execute<() => void>(signal, resolve => {
+      const waiter = {
+        mode,
+        grant: () => {
+          resolve(this.createRelease(mode));
+        },
+      };
+
+      this.waiters.push(waiter);
+      this.grant();
+
+      return () => {
+        const index = this.waiters.indexOf(waiter);
+
+        if (index !== -1) {
+          this.waiters.splice(index, 1);
+
+          // readers queued after an aborted writer may proceed now
+          this.grant();
+        }
+      };
+    });
+  }
+
+  private grant() {
+    while (this.waiters.length > 0) {
+      const waiter = this.waiters[0];
+
+      if (waiter.mode === 'read') {
+        if (this.writer) {
+          break;
+        }
+
+        this.readers += 1;
+      } else {
+        if (this.writer || this.readers > 0) {
+          break;
+        }
+
+        this.writer = true;
+      }
+
+      this.waiters.shift();
+      waiter.grant();
+    }
+  }
+
+  private createRelease(mode: 'read' | 'write'): () => void {
+    let released = false;
+
+    return () => {
+      if (released) {
+        return;
+      }
+
+      released = true;
+
+      if (mode === 'read') {
+        this.readers -= 1;
+      } else {
+        this.writer = false;
+      }
+
+      this.grant();
+    };
+  }
+}
@@ -0,0 +1,80 @@
+import {RetryBudget} from './RetryBudget';
+import {VirtualClock} from './VirtualClock';
+
+test('retry ratio', () => {
+  const budget = new RetryBudget({
+    retryRatio: 0.5,
+    minRetriesPerSecond: 0,
+    ttlMs: 1000,
+  });
+
+  expect(budget.tryWithdraw()).toBe(false);
+
+  budget.deposit();
+  budget.deposit();
+
+  expect(budget.balance).toBe(1);
+  expect(budget.tryWithdraw()).toBe(true);
+  expect(budget.tryWithdraw()).toBe(false);
+
+  budget.deposit();
+  budget.deposit();
+
+  expect(budget.tryWithdraw()).toBe(true);
+  expect(budget.tryWithdraw()).toBe(false);
+});
+
+test('min retries per second', async () => {
+  const clock = new VirtualClock();
+
+  const budget = new RetryBudget({
+    clock,
+    retryRatio: 0,
+    minRetriesPerSecond: 2,
+    ttlMs: 1000,
+  });
+
+  expect(budget.tryWithdraw()).toBe(true);
+  expect(budget.tryWithdraw()).toBe(true);
+  expect(budget.tryWithdraw()).toBe(false);
+
+  await clock.advance(500);
+
+  expect(budget.tryWithdraw()).toBe(false);
+
+  await clock.advance(500);
+
+  expect(budget.balance).toBe(2);
+});
+
+test('expire', async () => {
+  const clock = new VirtualClock();
+
+  const budget = new RetryBudget({
+    clock,
+    retryRatio: 1,
+    minRetriesPerSecond: 0,
+    ttlMs: 1000,
+  });
+
+  budget.deposit();
+
+  await clock.advance(600);
+
+  budget.deposit();
+
+  expect(budget.balance).toBe(2);
+
+  await clock.advance(500);
+
+  expect(budget.balance).toBe(1);
+
+  await clock.advance(5000);
+
+  expect(budget.balance).toBe(0);
+});
+
+test('invalid options', () => {
+  expect(() => new RetryBudget({retryRatio: -1})).toThrow(RangeError);
+  expect(() => new RetryBudget({ttlMs: 0})).toThrow(RangeError);
+});
@@ -0,0 +1,165 @@
+import {Clock, systemClock} from './Clock';
+
+export type RetryBudgetOptions = {
+  /**
+   * Maximum ratio of retries to first attempts.
+   *
+   * Defaults to 0.2, i.e. retries may add up to 20% of load on top of first
+   * attempts.
+   */
+  retryRatio?: number;
+  /**
+   * Number of retries per second allowed regardless of `retryRatio`, so that
+   * callers with low traffic can still retry.
+   *
+   * Defaults to 10.
+   */
+  minRetriesPerSecond?: number;
+  /**
+   * Time window in milliseconds during which first attempts and retries are
+   * counted.
+   *
+   * Defaults to 10 seconds.
+   */
+  ttlMs?: number;
+  /**
+   * Clock used to measure time.
+   *
+   * Defaults to `systemClock`.
+   */
+  clock?: Clock;
+};
+
+/**
+ * Limits retries made by many `retry` and `proactiveRetry` calls that share
+ * it, to prevent retry storms when a dependency goes down.
+ *
+ * Each first attempt deposits `retryRatio` to the budget and each retry
+ * withdraws 1 from it. Deposits and withdrawals expire after `ttlMs`, so the
+ * budget refills over time. Once the budget is exhausted, failed attempts are
+ * not retried, and the error is thrown right away.
+ *
+ * Based on the retry budget of Finagle.
+ *
+ * Example:
+ *
+ *     const retryBudget = new RetryBudget({retryRatio: 0.1});
+ *
+ *     async function makeRequest(signal: AbortSignal, params: Params) {
+ *       return await retry(signal, signal => doMakeRequest(signal, params), {
+ *         retryBudget,
+ *       });
+ *     }
+ */
+export class RetryBudget {
+  private readonly retryRatio: number;
+  private readonly reserve: number;
+  private readonly deposits: WindowedCounter;
+  private readonly withdrawals: WindowedCounter;
+
+  constructor(options: RetryBudgetOptions = {}) {
+    const {
+      retryRatio = 0.2,
+      minRetriesPerSecond = 10,
+      ttlMs = 10000,
+      clock = systemClock,
+    } = options;
+
+    if (!(retryRatio >= 0)) {
+      throw new RangeError(`Invalid retry ratio: ${retryRatio}`);
+    }
+
+    if (!(minRetriesPerSecond >= 0)) {
+      throw new RangeError(
+        `Invalid minimum retries per second: ${minRetriesPerSecond}`,
+      );
+    }
+
+    if (!(ttlMs > 0 && ttlMs < Infinity)) {
+      throw new RangeError(`Invalid TTL: ${ttlMs}`);
+    }
+
+    this.retryRatio = retryRatio;
+    this.reserve = (minRetriesPerSecond * ttlMs) / 1000;
+    this.deposits = new WindowedCounter(ttlMs, clock);
+    this.withdrawals = new WindowedCounter(ttlMs, clock);
+  }
+
+  /**
+   * Number of retries currently allowed.
+   */
+  get balance(): number {
+    return Math.floor(
+      this.reserve +
+        this.retryRatio * this.deposits.sum() -
+        this.withdrawals.sum(),
+    );
+  }
+
+  /**
+   * Records a first attempt.
+   */
+  deposit(): void {
+    this.deposits.add(1);
+  }
+
+  /**
+   * Records a retry if the budget allows it.
+   *
+   * Returns `false` if the budget is exhausted.
+   */
+  tryWithdraw(): boolean {
+    if (this.balance < 1) {
+      return false;
+    }
+
+    this.withdrawals.add(1);
+
+    return true;
+  }
+}
+
+/**
+ * Counts events during the last `windowMs`, with precision of a tenth of the
+ * window.
+ */
+class WindowedCounter {
+  private readonly slices = new Array<number>(10).fill(0);
+  private readonly sliceMs: number;
+  private index = 0;
+  private sliceStartTime: number;
+
+  constructor(windowMs: number, private readonly clock: Clock) {
+    this.sliceMs = windowMs / this.slices.length;
+    this.sliceStartTime = clock.now();
+  }
+
+  add(count: number): void {
+    this.expire();
+
+    this.slices[this.index] += count;
+  }
+
+  sum(): number {
+    this.expire();
+
+    return this.slices.reduce((sum, count) => sum + count, 0);
+  }
+
+  private expire(): void {
+    const elapsedSlices = Math.floor(
+      (this.clock.now() - this.sliceStartTime) / this.sliceMs,
+    );
+
+    if (elapsedSlices <= 0) {
+      return;
+    }
+
+    for (let i = 0; i < Math.min(elapsedSlices, this.slices.length); i++) {
+      this.index = (this.index + 1) % this.slices.length;
+      this.slices[this.index] = 0;
+    }
+
+    this.sliceStartTime += elapsedSlices * this.sliceMs;
+  }
+}
@@ -0,0 +1,72 @@
+import {AggregateErrorBase} from './utils/AggregateError';
+
+/**
+ * A failed attempt recorded by `retry` or `proactiveRetry`.
+ */
+export type RetryAttempt = {
+  /**
+   * Attempt number as passed to the function.
+   */
+  attempt: number;
+  /**
+   * The error the attempt failed with.
+   */
+  error: unknown;
+  /**
+   * Unix time in milliseconds when the attempt started.
+   */
+  startTime: number;
+  /**
+   * Time from the start of the attempt until it failed in milliseconds.
+   */
+  durationMs: number;
+  /**
+   * Delay in milliseconds before the next attempt was started, or `undefined`
+   * if there was no next attempt.
+   */
+  delayMs?: number;
+};
+
+/**
+ * Thrown by `retry` and `proactiveRetry` with `aggregateErrors` option once
+ * they run out of attempts.
+ *
+ * `errors` holds the errors of all failed attempts in order, and `attempts`
+ * holds the details of each failed attempt.
+ *
+ * **Warning**: do not use `instanceof` with this class. Instead, use
+ * `isRetryError` function.
+ */
+export class RetryError extends AggregateErrorBase {
+  attempts: RetryAttempt[];
+
+  constructor(attempts: RetryAttempt[]) {
+    const message = `Retry attempts exhausted: ${attempts.length} attempts failed`;
+
+    super(
+      attempts.map(attempt => attempt.error),
+      message,
+    );
+
+    this.message = message;
+
+    this.name = 'RetryError';
+
+    this.attempts = attempts;
+
+    if (typeof Error.captureStackTrace === 'function') {
+      Error.captureStackTrace(this, this.constructor);
+    }
+  }
+}
+
+/**
+ * Checks whether given `error` is a `RetryError`.
+ */
+export function isRetryError(error: unknown): error is RetryError {
+  return (
+    typeof error === 'object' &&
+    error !== null &&
+    (error as any).name === 'RetryError'
+  );
+}
@@ -0,0 +1,127 @@
+import {Mutex, Semaphore} from './Semaphore';
+import {nextTick} from './utils/nextTick';
+
+test('acquire and release in order', async () => {
+  const signal = new AbortController().signal;
+
+  const semaphore = new Semaphore(2);
+
+  const actions: string[] = [];
+
+  const release1 = await semaphore.acquire(signal);
+  const release2 = await semaphore.acquire(signal);
+
+  semaphore.acquire(signal).then(release => {
+    actions.push('acquired 3');
+    release();
+  });
+  semaphore.acquire(signal).then(release => {
+    actions.push('acquired 4');
+    release();
+  });
+
+  await nextTick();
+
+  expect(actions).toEqual([]);
+
+  release2();
+  release2();
+
+  await nextTick();
+
+  expect(actions).toEqual(['acquired 3', 'acquired 4']);
+
+  release1();
+
+  await expect(semaphore.acquire(signal)).resolves.toBeInstanceOf(Function);
+  await expect(semaphore.acquire(signal)).resolves.toBeInstanceOf(Function);
+});
+
+test('abort waiter', async () => {
+  const signal = new AbortController().signal;
+
+  const mutex = new Mutex();
+
+  const release = await mutex.acquire(signal);
+
+  const abortController = new AbortController();
+  abortController.signal.addEventListener = jest.fn(
+    abortController.signal.addEventListener,
+  );
+  abortController.signal.removeEventListener = jest.fn(
+    abortController.signal.removeEventListener,
+  );
+
+  let result: PromiseSettledResult<() => void> | undefined;
+
+  mutex.acquire(abortController.signal).then(
+    value => {
+      result = {status: 'fulfilled', value};
+    },
+    reason => {
+      result = {status: 'rejected', reason};
+    },
+  );
+
+  const nextWaiter = mutex.acquire(signal);
+
+  abortController.abort();
+
+  await nextTick();
+
+  expect(result).toMatchObject({
+    status: 'rejected',
+    reason: {name: 'AbortError'},
+  });
+
+  release();
+
+  const nextRelease = await nextWaiter;
+
+  // the aborted waiter did not take the permit
+  let acquired = false;
+  mutex.acquire(signal).then(() => {
+    acquired = true;
+  });
+
+  await nextTick();
+
+  expect(acquired).toBe(false);
+
+  nextRelease();
+
+  await nextTick();
+
+  expect(acquired).toBe(true);
+
+  expect(abortController.signal.addEventListener).toHaveBeenCalledTimes(1);
+  expect(abortController.signal.removeEventListener).toHaveBeenCalledTimes(1);
+});
+
+test('withLock', async () => {
+  const signal = new AbortController().signal;
+
+  const mutex = new Mutex();
+
+  const actions: string[] = [];
+
+  await Promise.all([
+    mutex.withLock(signal, async () => {
+      actions.push('start 1');
+      await nextTick();
+      actions.push('finish 1');
+    }),
+    mutex
+      .withLock(signal, async () => {
+        actions.push('start 2');
+        await nextTick();
+        throw new Error('test');
+      })
+      .catch(() => {}),
+    mutex.withLock(signal, async () => {
+      actions.push('start 3');
+    }),
+  ]);
+
+  expect(actions).toEqual(['start 1', 'finish 1', 'start 2', 'start 3']);
+});
@@ -0,0 +1,110 @@
+import {execute} from './execute';
+
+/**
+ * Counting semaphore with abortable `acquire`.
+ *
+ * Waiters are served in first-in-first-out order. A waiter whose signal is
+ * aborted is removed from the queue without taking a permit.
+ *
+ * Example:
+ *
+ *     // Allow at most 10 concurrent requests
+ *     const semaphore = new Semaphore(10);
+ *
+ *     const response = await semaphore.withLock(signal, signal =>
+ *       makeRequest(signal, params),
+ *     );
+ */
+export class Semaphore {
+  private permits: number;
+  private readonly waiters: Array<() => void> = [];
+
+  constructor(permits: number) {
+    if (!(permits >= 0)) {
+      throw new RangeError(`Invalid number of permits: ${permits}`);
+    }
+
+    this.permits = permits;
+  }
+
+  /**
+   * Returns a promise that fulfills with a release function once a permit is
+   * acquired, and rejects with `AbortError` once `signal` is aborted.
+   *
+   * The release function must be called exactly once to return the permit.
+   * Subsequent calls do nothing.
+   */
+  acquire(signal: AbortSignal): Promise<() => void> {
+    return execute<() => void>(signal, resolve => {
+      if (this.waiters.length === 0 && this.permits > 0) {
+        this.permits -= 1;
+        resolve(this.createRelease());
+
+        return () => {};
+      }
+
+      const waiter = () => {
+        resolve(this.createRelease());
+      };
+
+      this.waiters.push(waiter);
+
+      return () => {
+        const index = this.waiters.indexOf(waiter);
+
+        if (index !== -1) {
+          this.waiters.splice(index, 1);
+        }
+      };
+    });
+  }
+
+  /**
+   * Acquires a permit, runs an abortable function and releases the permit
+   * once the function finishes.
+   */
+  async withLock<T>(
+    signal: AbortSignal,
+    fn: (signal: AbortSignal) => Promise<T>,
+  ): Promise<T> {
+    const release = await this.acquire(signal);
+
+    try {
+      return await fn(signal);
+    } finally {
+      release();
+    }
+  }
+
+  private createRelease(): () => void {
+    let released = false;
+
+    return () => {
+      if (released) {
+        return;
+      }
+
+      released = true;
+
+      const waiter = this.waiters.shift();
+
+      if (waiter != null) {
+        // hand the permit over directly to keep the order fair
+        waiter();
+      } else {
+        this.permits += 1;
+      }
+    };
+  }
+}
+
+/**
+ * Mutual exclusion lock with abortable `acquire`.
+ *
+ * Same as `Semaphore` with a single permit.
+ */
+export class Mutex extends Semaphore {
+  constructor() {
+    super(1);
+  }
+}
@@ -0,0 +1,47 @@
+import {AggregateErrorBase} from './utils/AggregateError';
+
+/**
+ * Thrown by `spawn` with `aggregateErrors` option once the spawned function,
+ * a fork or a deferred function fails.
+ *
+ * `primary` is the first error, and `suppressed` holds the errors that
+ * followed it, e.g. failures of other forks or of cleanup. `errors` holds all
+ * of them in order.
+ *
+ * **Warning**: do not use `instanceof` with this class. Instead, use
+ * `isSpawnError` function.
+ */
+export class SpawnError extends AggregateErrorBase {
+  primary: unknown;
+  suppressed: unknown[];
+
+  constructor(errors: unknown[]) {
+    const message = `Spawn failed with ${errors.length} error${
+      errors.length === 1 ? '' : 's'
+    }`;
+
+    super(errors, message);
+
+    this.message = message;
+
+    this.name = 'SpawnError';
+
+    this.primary = errors[0];
+    this.suppressed = errors.slice(1);
+
+    if (typeof Error.captureStackTrace === 'function') {
+      Error.captureStackTrace(this, this.constructor);
+    }
+  }
+}
+
+/**
+ * Checks whether given `error` is a `SpawnError`.
+ */
+export function isSpawnError(error: unknown): error is SpawnError {
+  return (
+    typeof error === 'object' &&
+    error !== null &&
+    (error as any).name === 'SpawnError'
+  );
+}
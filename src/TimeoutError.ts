@@ -0,0 +1,43 @@
+/**
+ * Thrown when an abortable function did not finish in time.
+ *
+ * Unlike `AbortError`, this error is not matched by `isAbortError`, so that a
+ * timeout can be told apart from an abort requested by the caller.
+ *
+ * **Warning**: do not use `instanceof` with this class. Instead, use
+ * `isTimeoutError` function.
+ */
+export class TimeoutError extends Error {
+  /**
+   * The error that led to the timeout, if any, e.g. the error of the last
+   * attempt when the time limit of a retry runs out.
+   */
+  cause?: unknown;
+
+  constructor(message = 'The operation has timed out', cause?: unknown) {
+    super(message);
+
+    this.message = message;
+
+    this.name = 'TimeoutError';
+
+    if (cause !== undefined) {
+      this.cause = cause;
+    }
+
+    if (typeof Error.captureStackTrace === 'function') {
+      Error.captureStackTrace(this, this.constructor);
+    }
+  }
+}
+
+/**
+ * Checks whether given `error` is a `TimeoutError`.
+ */
+export function isTimeoutError(error: unknown): error is Error {
+  return (
+    typeof error === 'object' &&
+    error !== null &&
+    (error as any).name === 'TimeoutError'
+  );
+}
@@ -0,0 +1,102 @@
+import {constantBackoff} from './backoff';
+import {delay} from './delay';
+import {retry} from './retry';
+import {VirtualClock} from './VirtualClock';
+
+test('advance', async () => {
+  const signal = new AbortController().signal;
+
+  const clock = new VirtualClock({now: 1000});
+
+  const fired: number[] = [];
+
+  delay(signal, 200, {clock}).then(() => {
+    fired.push(clock.now());
+  });
+  delay(signal, new Date(1100), {clock}).then(() => {
+    fired.push(clock.now());
+  });
+
+  await clock.advance(50);
+
+  expect(fired).toEqual([]);
+  expect(clock.now()).toBe(1050);
+
+  await clock.advance(100);
+
+  expect(fired).toEqual([1100]);
+  expect(clock.now()).toBe(1150);
+
+  await clock.advance(1000);
+
+  expect(fired).toEqual([1100, 1200]);
+  expect(clock.now()).toBe(2150);
+  expect(clock.pendingTimers).toBe(0);
+});
+
+test('abort', async () => {
+  const abortController = new AbortController();
+
+  const clock = new VirtualClock();
+
+  const promise = delay(abortController.signal, 1000, {clock});
+
+  expect(clock.pendingTimers).toBe(1);
+
+  abortController.abort();
+
+  await expect(promise).rejects.toMatchObject({name: 'AbortError'});
+
+  expect(clock.pendingTimers).toBe(0);
+});
+
+test('timers scheduled by timers', async () => {
+  const signal = new AbortController().signal;
+
+  const clock = new VirtualClock();
+
+  const fn = jest.fn(async (signal: AbortSignal, attempt: number) => {
+    if (attempt < 3) {
+      throw new Error('test');
+    }
+
+    return clock.now();
+  });
+
+  const promise = retry(signal, fn, {clock, backoff: constantBackoff(1000)});
+
+  await clock.advance(1000);
+
+  expect(fn).toHaveBeenCalledTimes(2);
+
+  await clock.runAll();
+
+  await expect(promise).resolves.toBe(3000);
+});
+
+test('runAll limit', async () => {
+  const abortController = new AbortController();
+
+  const clock = new VirtualClock();
+
+  const promise = retry(
+    abortController.signal,
+    async () => {
+      throw new Error('test');
+    },
+    {clock},
+  );
+
+  await expect(clock.runAll(100)).rejects.toThrow(
+    'Fired 100 timers without running out of them, assuming an endless loop',
+  );
+
+  abortController.abort();
+
+  await expect(promise).rejects.toMatchObject({name: 'AbortError'});
+});
+
+test('random', () => {
+  expect(new VirtualClock().random()).toBe(0.5);
+  expect(new VirtualClock({random: () => 0.1}).random()).toBe(0.1);
+});
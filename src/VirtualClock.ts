@@ -0,0 +1,163 @@
+import {Clock} from './Clock';
+
+export type VirtualClockOptions = {
+  /**
+   * Initial Unix time in milliseconds.
+   *
+   * Defaults to 0.
+   */
+  now?: number;
+  /**
+   * Source of random numbers.
+   *
+   * Defaults to always returning 0.5, so that jitter is deterministic.
+   */
+  random?: () => number;
+};
+
+type Timer = {
+  id: number;
+  time: number;
+  callback: () => void;
+};
+
+/**
+ * Clock for tests, where time moves only when `advance` or `runAll` is
+ * called.
+ *
+ * Both methods let pending promise callbacks run before firing each timer and
+ * after the last one, so that code that sets a new timer in reaction to a
+ * previous one, e.g. `retry`, runs as it would with real time.
+ *
+ * Example:
+ *
+ *     const clock = new VirtualClock();
+ *
+ *     const promise = retry(signal, fn, {clock, backoff: constantBackoff(1000)});
+ *
+ *     await clock.advance(1000);
+ *
+ *     expect(fn).toHaveBeenCalledTimes(2);
+ */
+export class VirtualClock implements Clock {
+  private currentTime: number;
+  private readonly randomFn: () => number;
+  private readonly timers: Timer[] = [];
+  private nextId = 1;
+
+  constructor(options: VirtualClockOptions = {}) {
+    const {now = 0, random = () => 0.5} = options;
+
+    this.currentTime = now;
+    this.randomFn = random;
+  }
+
+  /**
+   * Number of scheduled timers.
+   */
+  get pendingTimers(): number {
+    return this.timers.length;
+  }
+
+  now(): number {
+    return this.currentTime;
+  }
+
+  setTimeout(callback: () => void, ms: number): unknown {
+    const timer: Timer = {
+      id: this.nextId++,
+      time: this.currentTime + Math.max(0, ms),
+      callback,
+    };
+
+    // keep timers sorted by time, and by order of scheduling for equal times
+    let index = this.timers.length;
+
+    while (index > 0 && this.timers[index - 1].time > timer.time) {
+      index--;
+    }
+
+    this.timers.splice(index, 0, timer);
+
+    return timer.id;
+  }
+
+  clearTimeout(handle: unknown): void {
+    const index = this.timers.findIndex(timer => timer.id === handle);
+
+    if (index !== -1) {
+      this.timers.splice(index, 1);
+    }
+  }
+
+  random(): number {
+    return this.randomFn();
+  }
+
+  /**
+   * Moves time forward by `ms` milliseconds, firing due timers in order.
+   */
+  async advance(ms: number): Promise<void> {
+    const targetTime = this.currentTime + ms;
+
+    await flushMicrotasks();
+
+    while (this.timers.length > 0 && this.timers[0].time <= targetTime) {
+      this.fireNext();
+
+      await flushMicrotasks();
+    }
+
+    this.currentTime = targetTime;
+  }
+
+  /**
+   * Fires timers in order, moving time forward, until there are no timers
+   * left, including ones scheduled in the process.
+   *
+   * Throws after firing `maxTimers` timers, assuming an endless loop.
+   */
+  async runAll(maxTimers: number = 10000): Promise<void> {
+    await flushMicrotasks();
+
+    for (let count = 0; this.timers.length > 0; count++) {
+      if (count >= maxTimers) {
+        throw new Error(
+          `Fired ${maxTimers} timers without running out of them, assuming an endless loop`,
+        );
+      }
+
+      this.fireNext();
+
+      await flushMicrotasks();
+    }
+  }
+
+  private fireNext(): void {
+    const timer = this.timers.shift()!;
+
+    this.currentTime = Math.max(this.currentTime, timer.time);
+
+    timer.callback();
+  }
+}
+
+// captured at load time, so that fake timers installed later don't affect it
+const realSetImmediate =
+  typeof setImmediate === 'function' ? setImmediate : undefined;
+const realSetTimeout = setTimeout;
+
+function scheduleMacrotask(callback: () => void): void {
+  if (realSetImmediate != null) {
+    realSetImmediate(callback);
+  } else {
+    realSetTimeout(callback, 0);
+  }
+}
+
+/**
+ * Lets all pending promise callbacks run, including ones queued by them.
+ */
+function flushMicrotasks(): Promise<void> {
+  return new Promise(resolve => scheduleMacrotask(resolve));
+}
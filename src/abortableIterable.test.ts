@@ -0,0 +1,223 @@
+import defer from 'defer-promise';
+import {abortableIterable, takeUntilAborted} from './abortableIterable';
+import {nextTick} from './utils/nextTick';
+
+function createSource<T>() {
+  const deferreds: Array<DeferPromise.Deferred<IteratorResult<T>>> = [];
+  const returnFn = jest.fn(
+    async (): Promise<IteratorResult<T>> => ({done: true, value: undefined}),
+  );
+
+  const iterable: AsyncIterable<T> = {
+    [Symbol.asyncIterator]() {
+      return {
+        next() {
+          const deferred = defer<IteratorResult<T>>();
+          deferreds.push(deferred);
+          return deferred.promise;
+        },
+        return: returnFn,
+      };
+    },
+  };
+
+  return {iterable, deferreds, returnFn};
+}
+
+test('iterate', async () => {
+  const abortController = new AbortController();
+  const signal = abortController.signal;
+  signal.addEventListener = jest.fn(signal.addEventListener);
+  signal.removeEventListener = jest.fn(signal.removeEventListener);
+
+  async function* source() {
+    yield 1;
+    yield 2;
+    yield 3;
+  }
+
+  const values: number[] = [];
+
+  for await (const value of abortableIterable(signal, source())) {
+    values.push(value);
+  }
+
+  expect(values).toEqual([1, 2, 3]);
+
+  expect(signal.addEventListener).toHaveBeenCalledTimes(4);
+  expect(signal.removeEventListener).toHaveBeenCalledTimes(4);
+});
+
+test('abort pending step', async () => {
+  const abortController = new AbortController();
+  const signal = abortController.signal;
+  signal.addEventListener = jest.fn(signal.addEventListener);
+  signal.removeEventListener = jest.fn(signal.removeEventListener);
+
+  const {iterable, deferreds, returnFn} = createSource<number>();
+
+  const values: number[] = [];
+  let result: PromiseSettledResult<void> | undefined;
+
+  (async () => {
+    for await (const value of abortableIterable(signal, iterable)) {
+      values.push(value);
+    }
+  })().then(
+    value => {
+      result = {status: 'fulfilled', value};
+    },
+    reason => {
+      result = {status: 'rejected', reason};
+    },
+  );
+
+  await nextTick();
+
+  deferreds[0].resolve({done: false, value: 1});
+
+  await nextTick();
+
+  expect(values).toEqual([1]);
+  expect(deferreds).toHaveLength(2);
+
+  abortController.abort();
+
+  await nextTick();
+
+  expect(result).toMatchObject({
+    status: 'rejected',
+    reason: {name: 'AbortError'},
+  });
+  expect(returnFn).toHaveBeenCalledTimes(1);
+
+  expect(signal.addEventListener).toHaveBeenCalledTimes(2);
+  expect(signal.removeEventListener).toHaveBeenCalledTimes(2);
+});
+
+test('break', async () => {
+  const abortController = new AbortController();
+  const signal = abortController.signal;
+  signal.addEventListener = jest.fn(signal.addEventListener);
+  signal.removeEventListener = jest.fn(signal.removeEventListener);
+
+  const {iterable, deferreds, returnFn} = createSource<number>();
+
+  const promise = (async () => {
+    for await (const value of abortableIterable(signal, iterable)) {
+      if (value === 2) {
+        break;
+      }
+    }
+  })();
+
+  await nextTick();
+  deferreds[0].resolve({done: false, value: 1});
+  await nextTick();
+  deferreds[1].resolve({done: false, value: 2});
+
+  await promise;
+
+  expect(returnFn).toHaveBeenCalledTimes(1);
+
+  expect(signal.addEventListener).toHaveBeenCalledTimes(2);
+  expect(signal.removeEventListener).toHaveBeenCalledTimes(2);
+});
+
+test('source error', async () => {
+  const abortController = new AbortController();
+  const signal = abortController.signal;
+
+  const {iterable, deferreds, returnFn} = createSource<number>();
+
+  const values: number[] = [];
+
+  const promise = (async () => {
+    for await (const value of abortableIterable(signal, iterable)) {
+      values.push(value);
+    }
+  })();
+
+  await nextTick();
+  deferreds[0].reject(new Error('test'));
+
+  await expect(promise).rejects.toMatchObject({message: 'test'});
+
+  expect(values).toEqual([]);
+  expect(returnFn).not.toHaveBeenCalled();
+});
+
+test('abort before iterate', async () => {
+  const abortController = new AbortController();
+  const signal = abortController.signal;
+  signal.addEventListener = jest.fn(signal.addEventListener);
+  signal.removeEventListener = jest.fn(signal.removeEventListener);
+  abortController.abort();
+
+  const {iterable, deferreds, returnFn} = createSource<number>();
+
+  const values: number[] = [];
+
+  await expect(
+    (async () => {
+      for await (const value of abortableIterable(signal, iterable)) {
+        values.push(value);
+      }
+    })(),
+  ).rejects.toMatchObject({name: 'AbortError'});
+
+  expect(values).toEqual([]);
+  expect(deferreds).toHaveLength(0);
+  expect(returnFn).toHaveBeenCalledTimes(1);
+
+  expect(signal.addEventListener).not.toHaveBeenCalled();
+  expect(signal.removeEventListener).not.toHaveBeenCalled();
+});
+
+test('takeUntilAborted', async () => {
+  const abortController = new AbortController();
+  const signal = abortController.signal;
+
+  const {iterable, deferreds, returnFn} = createSource<number>();
+
+  const values: number[] = [];
+
+  const promise = (async () => {
+    for await (const value of takeUntilAborted(signal, iterable)) {
+      values.push(value);
+    }
+  })();
+
+  await nextTick();
+  deferreds[0].resolve({done: false, value: 1});
+  await nextTick();
+
+  abortController.abort();
+
+  await expect(promise).resolves.toBeUndefined();
+
+  expect(values).toEqual([1]);
+  expect(returnFn).toHaveBeenCalledTimes(1);
+});
+
+test('takeUntilAborted source error', async () => {
+  const abortController = new AbortController();
+  const signal = abortController.signal;
+
+  const {iterable, deferreds} = createSource<number>();
+
+  const values: number[] = [];
+
+  const promise = (async () => {
+    for await (const value of takeUntilAborted(signal, iterable)) {
+      values.push(value);
+    }
+  })();
+
+  await nextTick();
+  deferreds[0].reject(new Error('test'));
+
+  await expect(promise).rejects.toMatchObject({message: 'test'});
+
+  expect(values).toEqual([]);
+});
@@ -0,0 +1,97 @@
+import {isAbortError} from './AbortError';
+import {execute} from './execute';
+
+/**
+ * Wrap an async iterable so that iterating it rejects with `AbortError` once
+ * `signal` is aborted.
+ *
+ * On abort, the pending step rejects immediately and the `return` method of
+ * the source iterator is called for cleanup. The pending step of the source
+ * may never settle, so this cleanup is not waited for.
+ *
+ * When the loop exits early, e.g. via `break` or exception, the `return`
+ * method of the source iterator is called and waited for, as with a plain
+ * `for await` loop.
+ *
+ * Example:
+ *
+ *     for await (const message of abortableIterable(signal, consumer)) {
+ *       await handleMessage(signal, message);
+ *     }
+ */
+export async function* abortableIterable<T>(
+  signal: AbortSignal,
+  iterable: AsyncIterable<T>,
+): AsyncGenerator<T, void, undefined> {
+  const iterator = iterable[Symbol.asyncIterator]();
+
+  /**
+   * Set when the source iterator must not be closed by us, i.e. it is done,
+   * it threw, or we already called `return` on abort.
+   */
+  let closed = false;
+
+  try {
+    while (true) {
+      const result = await execute<IteratorResult<T>>(
+        signal,
+        (resolve, reject) => {
+          iterator.next().then(resolve, error => {
+            closed = true;
+            reject(error);
+          });
+
+          return () => {
+            closed = true;
+
+            if (iterator.return != null) {
+              // prevent unhandled rejection
+              const noop = () => {};
+              Promise.resolve()
+                .then(() => iterator.return!())
+                .then(noop, noop);
+            }
+          };
+        },
+      );
+
+      if (result.done) {
+        closed = true;
+        return;
+      }
+
+      yield result.value;
+    }
+  } finally {
+    if (!closed && iterator.return != null) {
+      await iterator.return();
+    }
+  }
+}
+
+/**
+ * Same as `abortableIterable`, but ends iteration normally instead of
+ * rejecting with `AbortError` once `signal` is aborted.
+ *
+ * Example:
+ *
+ *     for await (const message of takeUntilAborted(signal, consumer)) {
+ *       await handleMessage(message);
+ *     }
+ *
+ *     // signal is aborted here, or the consumer is exhausted
+ */
+export async function* takeUntilAborted<T>(
+  signal: AbortSignal,
+  iterable: AsyncIterable<T>,
+): AsyncGenerator<T, void, undefined> {
+  try {
+    yield* abortableIterable(signal, iterable);
+  } catch (error) {
+    if (signal.aborted && isAbortError(error)) {
+      return;
+    }
+
+    throw error;
+  }
+}
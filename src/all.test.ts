@@ -1,6 +1,8 @@
 import defer from 'defer-promise';
 import {AbortError} from './AbortError';
 import {all} from './all';
+import {execute} from './execute';
+import {testAbortReason} from './utils/abortReason';
 import {nextTick} from './utils/nextTick';
 
 test('external abort', async () => {
@@ -206,3 +208,24 @@ test('empty', async () => {
   expect(signal.addEventListener).toHaveBeenCalledTimes(0);
   expect(signal.removeEventListener).toHaveBeenCalledTimes(0);
 });
+
+testAbortReason('abort reason', async () => {
+  const abortController = new AbortController();
+  const signal = abortController.signal;
+
+  let innerSignal: AbortSignal;
+
+  const promise = all(signal, signal => {
+    innerSignal = signal;
+    return [execute(signal, () => () => {})];
+  });
+
+  abortController.abort('shutdown');
+
+  expect(innerSignal!.reason).toBe('shutdown');
+
+  await expect(promise).rejects.toMatchObject({
+    name: 'AbortError',
+    reason: 'shutdown',
+  });
+});
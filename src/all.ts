@@ -143,7 +143,7 @@ export function all<T>(
 ): Promise<T[]> {
   return new Promise((resolve, reject) => {
     if (signal.aborted) {
-      reject(new AbortError());
+      reject(new AbortError(signal.reason));
       return;
     }
 
@@ -157,7 +157,7 @@ export function all<T>(
     }
 
     const abortListener = () => {
-      innerAbortController.abort();
+      innerAbortController.abort(signal.reason);
     };
 
     signal.addEventListener('abort', abortListener);
@@ -189,7 +189,7 @@ export function all<T>(
           settled();
         },
         reason => {
-          innerAbortController.abort();
+          innerAbortController.abort(reason);
 
           if (
             rejection == null ||
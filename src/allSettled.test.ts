@@ -0,0 +1,124 @@
+import defer from 'defer-promise';
+import {AbortError} from './AbortError';
+import {allSettled} from './allSettled';
+import {nextTick} from './utils/nextTick';
+
+test('settle', async () => {
+  const abortController = new AbortController();
+  const signal = abortController.signal;
+  signal.addEventListener = jest.fn(signal.addEventListener);
+  signal.removeEventListener = jest.fn(signal.removeEventListener);
+
+  const deferred1 = defer<string>();
+  const deferred2 = defer<number>();
+
+  let result: PromiseSettledResult<unknown> | undefined;
+  let innerSignal: AbortSignal;
+
+  allSettled(signal, signal => {
+    innerSignal = signal;
+    return [deferred1.promise, deferred2.promise];
+  }).then(
+    value => {
+      result = {status: 'fulfilled', value};
+    },
+    reason => {
+      result = {status: 'rejected', reason};
+    },
+  );
+
+  deferred1.reject('test');
+  await nextTick();
+
+  expect(result).toBeUndefined();
+  expect(innerSignal!.aborted).toBe(false);
+
+  deferred2.resolve(1);
+  await nextTick();
+
+  expect(result).toEqual({
+    status: 'fulfilled',
+    value: [
+      {status: 'rejected', reason: 'test'},
+      {status: 'fulfilled', value: 1},
+    ],
+  });
+
+  expect(signal.addEventListener).toHaveBeenCalledTimes(1);
+  expect(signal.removeEventListener).toHaveBeenCalledTimes(1);
+});
+
+test('external abort', async () => {
+  const abortController = new AbortController();
+  const signal = abortController.signal;
+  signal.addEventListener = jest.fn(signal.addEventListener);
+  signal.removeEventListener = jest.fn(signal.removeEventListener);
+
+  const deferred1 = defer<string>();
+  const deferred2 = defer<number>();
+
+  let result: PromiseSettledResult<unknown> | undefined;
+  let innerSignal: AbortSignal;
+
+  allSettled(signal, signal => {
+    innerSignal = signal;
+    return [deferred1.promise, deferred2.promise];
+  }).then(
+    value => {
+      result = {status: 'fulfilled', value};
+    },
+    reason => {
+      result = {status: 'rejected', reason};
+    },
+  );
+
+  deferred1.resolve('test');
+
+  abortController.abort();
+
+  expect(innerSignal!.aborted).toBe(true);
+
+  await nextTick();
+
+  expect(result).toBeUndefined();
+
+  deferred2.reject(new AbortError());
+  await nextTick();
+
+  expect(result).toMatchObject({
+    status: 'rejected',
+    reason: {name: 'AbortError'},
+  });
+
+  expect(signal.addEventListener).toHaveBeenCalledTimes(1);
+  expect(signal.removeEventListener).toHaveBeenCalledTimes(1);
+});
+
+test('fulfill despite abort', async () => {
+  const abortController = new AbortController();
+  const signal = abortController.signal;
+
+  const deferred1 = defer<string>();
+  const deferred2 = defer<number>();
+
+  const promise = allSettled(signal, () => [
+    deferred1.promise,
+    deferred2.promise,
+  ]);
+
+  abortController.abort();
+
+  deferred1.resolve('test');
+  deferred2.resolve(1);
+
+  await expect(promise).resolves.toEqual([
+    {status: 'fulfilled', value: 'test'},
+    {status: 'fulfilled', value: 1},
+  ]);
+});
+
+test('empty', async () => {
+  const signal = new AbortController().signal;
+
+  await expect(allSettled(signal, () => [])).resolves.toEqual([]);
+});
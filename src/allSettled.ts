@@ -0,0 +1,276 @@
+import {AbortError} from './AbortError';
+
+/**
+ * Abortable version of `Promise.allSettled`.
+ *
+ * Creates new inner `AbortSignal` and passes it to `executor`. That signal is
+ * aborted when `signal` is aborted. Unlike `all`, it is not aborted when any of
+ * the promises returned from `executor` are rejected.
+ *
+ * Returns a promise that fulfills with an array of settled results when all of
+ * the promises returned from `executor` settle, and rejects with `AbortError`
+ * when `signal` is aborted. Same as with `all`, if all of the promises fulfill
+ * despite the abort, the promise fulfills.
+ *
+ * The promises returned from `executor` must be abortable, i.e. once
+ * `innerSignal` is aborted, they must reject with `AbortError` either
+ * immediately, or after doing any async cleanup.
+ *
+ * Example:
+ *
+ *     const [result1, result2] = await allSettled(signal, signal => [
+ *       makeRequest(signal, params1),
+ *       makeRequest(signal, params2),
+ *     ]);
+ *
+ *     if (result1.status === 'fulfilled') {
+ *       const response1 = result1.value;
+ *     }
+ */
+export function allSettled<T1, T2, T3, T4, T5, T6, T7, T8, T9, T10>(
+  signal: AbortSignal,
+  executor: (
+    innerSignal: AbortSignal,
+  ) => readonly [
+    PromiseLike<T1>,
+    PromiseLike<T2>,
+    PromiseLike<T3>,
+    PromiseLike<T4>,
+    PromiseLike<T5>,
+    PromiseLike<T6>,
+    PromiseLike<T7>,
+    PromiseLike<T8>,
+    PromiseLike<T9>,
+    PromiseLike<T10>,
+  ],
+): Promise<
+  [
+    PromiseSettledResult<T1>,
+    PromiseSettledResult<T2>,
+    PromiseSettledResult<T3>,
+    PromiseSettledResult<T4>,
+    PromiseSettledResult<T5>,
+    PromiseSettledResult<T6>,
+    PromiseSettledResult<T7>,
+    PromiseSettledResult<T8>,
+    PromiseSettledResult<T9>,
+    PromiseSettledResult<T10>,
+  ]
+>;
+export function allSettled<T1, T2, T3, T4, T5, T6, T7, T8, T9>(
+  signal: AbortSignal,
+  executor: (
+    innerSignal: AbortSignal,
+  ) => readonly [
+    PromiseLike<T1>,
+    PromiseLike<T2>,
+    PromiseLike<T3>,
+    PromiseLike<T4>,
+    PromiseLike<T5>,
+    PromiseLike<T6>,
+    PromiseLike<T7>,
+    PromiseLike<T8>,
+    PromiseLike<T9>,
+  ],
+): Promise<
+  [
+    PromiseSettledResult<T1>,
+    PromiseSettledResult<T2>,
+    PromiseSettledResult<T3>,
+    PromiseSettledResult<T4>,
+    PromiseSettledResult<T5>,
+    PromiseSettledResult<T6>,
+    PromiseSettledResult<T7>,
+    PromiseSettledResult<T8>,
+    PromiseSettledResult<T9>,
+  ]
+>;
+export function allSettled<T1, T2, T3, T4, T5, T6, T7, T8>(
+  signal: AbortSignal,
+  executor: (
+    innerSignal: AbortSignal,
+  ) => readonly [
+    PromiseLike<T1>,
+    PromiseLike<T2>,
+    PromiseLike<T3>,
+    PromiseLike<T4>,
+    PromiseLike<T5>,
+    PromiseLike<T6>,
+    PromiseLike<T7>,
+    PromiseLike<T8>,
+  ],
+): Promise<
+  [
+    PromiseSettledResult<T1>,
+    PromiseSettledResult<T2>,
+    PromiseSettledResult<T3>,
+    PromiseSettledResult<T4>,
+    PromiseSettledResult<T5>,
+    PromiseSettledResult<T6>,
+    PromiseSettledResult<T7>,
+    PromiseSettledResult<T8>,
+  ]
+>;
+export function allSettled<T1, T2, T3, T4, T5, T6, T7>(
+  signal: AbortSignal,
+  executor: (
+    innerSignal: AbortSignal,
+  ) => readonly [
+    PromiseLike<T1>,
+    PromiseLike<T2>,
+    PromiseLike<T3>,
+    PromiseLike<T4>,
+    PromiseLike<T5>,
+    PromiseLike<T6>,
+    PromiseLike<T7>,
+  ],
+): Promise<
+  [
+    PromiseSettledResult<T1>,
+    PromiseSettledResult<T2>,
+    PromiseSettledResult<T3>,
+    PromiseSettledResult<T4>,
+    PromiseSettledResult<T5>,
+    PromiseSettledResult<T6>,
+    PromiseSettledResult<T7>,
+  ]
+>;
+export function allSettled<T1, T2, T3, T4, T5, T6>(
+  signal: AbortSignal,
+  executor: (
+    innerSignal: AbortSignal,
+  ) => readonly [
+    PromiseLike<T1>,
+    PromiseLike<T2>,
+    PromiseLike<T3>,
+    PromiseLike<T4>,
+    PromiseLike<T5>,
+    PromiseLike<T6>,
+  ],
+): Promise<
+  [
+    PromiseSettledResult<T1>,
+    PromiseSettledResult<T2>,
+    PromiseSettledResult<T3>,
+    PromiseSettledResult<T4>,
+    PromiseSettledResult<T5>,
+    PromiseSettledResult<T6>,
+  ]
+>;
+export function allSettled<T1, T2, T3, T4, T5>(
+  signal: AbortSignal,
+  executor: (
+    innerSignal: AbortSignal,
+  ) => readonly [
+    PromiseLike<T1>,
+    PromiseLike<T2>,
+    PromiseLike<T3>,
+    PromiseLike<T4>,
+    PromiseLike<T5>,
+  ],
+): Promise<
+  [
+    PromiseSettledResult<T1>,
+    PromiseSettledResult<T2>,
+    PromiseSettledResult<T3>,
+    PromiseSettledResult<T4>,
+    PromiseSettledResult<T5>,
+  ]
+>;
+export function allSettled<T1, T2, T3, T4>(
+  signal: AbortSignal,
+  executor: (
+    innerSignal: AbortSignal,
+  ) => readonly [
+    PromiseLike<T1>,
+    PromiseLike<T2>,
+    PromiseLike<T3>,
+    PromiseLike<T4>,
+  ],
+): Promise<
+  [
+    PromiseSettledResult<T1>,
+    PromiseSettledResult<T2>,
+    PromiseSettledResult<T3>,
+    PromiseSettledResult<T4>,
+  ]
+>;
+export function allSettled<T1, T2, T3>(
+  signal: AbortSignal,
+  executor: (
+    innerSignal: AbortSignal,
+  ) => readonly [PromiseLike<T1>, PromiseLike<T2>, PromiseLike<T3>],
+): Promise<
+  [PromiseSettledResult<T1>, PromiseSettledResult<T2>, PromiseSettledResult<T3>]
+>;
+export function allSettled<T1, T2>(
+  signal: AbortSignal,
+  executor: (
+    innerSignal: AbortSignal,
+  ) => readonly [PromiseLike<T1>, PromiseLike<T2>],
+): Promise<[PromiseSettledResult<T1>, PromiseSettledResult<T2>]>;
+export function allSettled<T>(
+  signal: AbortSignal,
+  executor: (innerSignal: AbortSignal) => readonly PromiseLike<T>[],
+): Promise<PromiseSettledResult<T>[]>;
+export function allSettled<T>(
+  signal: AbortSignal,
+  executor: (innerSignal: AbortSignal) => readonly PromiseLike<T>[],
+): Promise<PromiseSettledResult<T>[]> {
+  return new Promise((resolve, reject) => {
+    if (signal.aborted) {
+      reject(new AbortError(signal.reason));
+      return;
+    }
+
+    const innerAbortController = new AbortController();
+
+    const promises = executor(innerAbortController.signal);
+
+    if (promises.length === 0) {
+      resolve([]);
+      return;
+    }
+
+    const abortListener = () => {
+      innerAbortController.abort(signal.reason);
+    };
+
+    signal.addEventListener('abort', abortListener);
+
+    const results = new Array<PromiseSettledResult<T>>(promises.length);
+
+    let settledCount = 0;
+    let rejected = false;
+
+    function settled() {
+      settledCount += 1;
+
+      if (settledCount === promises.length) {
+        signal.removeEventListener('abort', abortListener);
+
+        if (signal.aborted && rejected) {
+          reject(new AbortError(signal.reason));
+        } else {
+          resolve(results);
+        }
+      }
+    }
+
+    for (const [i, promise] of promises.entries()) {
+      promise.then(
+        value => {
+          results[i] = {status: 'fulfilled', value};
+
+          settled();
+        },
+        reason => {
+          results[i] = {status: 'rejected', reason};
+          rejected = true;
+
+          settled();
+        },
+      );
+    }
+  });
+}
@@ -0,0 +1,143 @@
+import defer from 'defer-promise';
+import {AbortError} from './AbortError';
+import {any} from './any';
+import {supportsAbortReason} from './utils/abortReason';
+import {nextTick} from './utils/nextTick';
+
+test('fulfill', async () => {
+  const abortController = new AbortController();
+  const signal = abortController.signal;
+  signal.addEventListener = jest.fn(signal.addEventListener);
+  signal.removeEventListener = jest.fn(signal.removeEventListener);
+
+  const deferred1 = defer<string>();
+  const deferred2 = defer<string>();
+  const deferred3 = defer<string>();
+
+  let result: PromiseSettledResult<string> | undefined;
+  let innerSignal: AbortSignal;
+
+  any(signal, signal => {
+    innerSignal = signal;
+    return [deferred1.promise, deferred2.promise, deferred3.promise];
+  }).then(
+    value => {
+      result = {status: 'fulfilled', value};
+    },
+    reason => {
+      result = {status: 'rejected', reason};
+    },
+  );
+
+  deferred1.reject('test');
+  await nextTick();
+
+  expect(result).toBeUndefined();
+  expect(innerSignal!.aborted).toBe(false);
+
+  deferred2.resolve('value');
+  await nextTick();
+
+  expect(result).toBeUndefined();
+  expect(innerSignal!.aborted).toBe(true);
+
+  if (supportsAbortReason) {
+    expect(innerSignal!.reason).toEqual(
+      new Error('Another promise has been fulfilled'),
+    );
+  }
+
+  deferred3.reject(new AbortError());
+  await nextTick();
+
+  expect(result).toEqual({status: 'fulfilled', value: 'value'});
+
+  expect(signal.addEventListener).toHaveBeenCalledTimes(1);
+  expect(signal.removeEventListener).toHaveBeenCalledTimes(1);
+});
+
+test('reject', async () => {
+  const abortController = new AbortController();
+  const signal = abortController.signal;
+  signal.addEventListener = jest.fn(signal.addEventListener);
+  signal.removeEventListener = jest.fn(signal.removeEventListener);
+
+  const deferred1 = defer<string>();
+  const deferred2 = defer<string>();
+
+  let result: PromiseSettledResult<string> | undefined;
+  let innerSignal: AbortSignal;
+
+  any(signal, signal => {
+    innerSignal = signal;
+    return [deferred1.promise, deferred2.promise];
+  }).then(
+    value => {
+      result = {status: 'fulfilled', value};
+    },
+    reason => {
+      result = {status: 'rejected', reason};
+    },
+  );
+
+  deferred2.reject('test2');
+  await nextTick();
+
+  expect(result).toBeUndefined();
+
+  deferred1.reject('test1');
+  await nextTick();
+
+  expect(innerSignal!.aborted).toBe(false);
+  expect(result).toMatchObject({
+    status: 'rejected',
+    reason: {name: 'AggregateError', errors: ['test1', 'test2']},
+  });
+
+  expect(signal.addEventListener).toHaveBeenCalledTimes(1);
+  expect(signal.removeEventListener).toHaveBeenCalledTimes(1);
+});
+
+test('external abort', async () => {
+  const abortController = new AbortController();
+  const signal = abortController.signal;
+  signal.addEventListener = jest.fn(signal.addEventListener);
+  signal.removeEventListener = jest.fn(signal.removeEventListener);
+
+  const deferred1 = defer<string>();
+  const deferred2 = defer<string>();
+
+  let result: PromiseSettledResult<string> | undefined;
+
+  any(signal, () => [deferred1.promise, deferred2.promise]).then(
+    value => {
+      result = {status: 'fulfilled', value};
+    },
+    reason => {
+      result = {status: 'rejected', reason};
+    },
+  );
+
+  abortController.abort();
+
+  deferred1.reject(new AbortError());
+  deferred2.reject(new AbortError());
+  await nextTick();
+
+  expect(result).toMatchObject({
+    status: 'rejected',
+    reason: {name: 'AbortError'},
+  });
+
+  expect(signal.addEventListener).toHaveBeenCalledTimes(1);
+  expect(signal.removeEventListener).toHaveBeenCalledTimes(1);
+});
+
+test('empty', async () => {
+  const signal = new AbortController().signal;
+
+  await expect(any(signal, () => [])).rejects.toMatchObject({
+    name: 'AggregateError',
+    errors: [],
+  });
+});
@@ -0,0 +1,95 @@
+import {AbortError} from './AbortError';
+import {AggregateErrorBase} from './utils/AggregateError';
+
+/**
+ * Abortable version of `Promise.any`.
+ *
+ * Creates new inner `AbortSignal` and passes it to `executor`. That signal is
+ * aborted when `signal` is aborted or any of the promises returned from
+ * `executor` are fulfilled.
+ *
+ * Returns a promise that fulfills when any of the promises returned from
+ * `executor` are fulfilled, rejects with `AggregateError` when all of them are
+ * rejected, and rejects with `AbortError` when `signal` is aborted.
+ *
+ * The promises returned from `executor` must be abortable, i.e. once
+ * `innerSignal` is aborted, they must reject with `AbortError` either
+ * immediately, or after doing any async cleanup.
+ *
+ * Example:
+ *
+ *     // Query all replicas, use the first successful response
+ *     const response = await any(signal, signal =>
+ *       replicas.map(replica => makeRequest(signal, replica, params)),
+ *     );
+ */
+export function any<T extends PromiseLike<any>>(
+  signal: AbortSignal,
+  executor: (innerSignal: AbortSignal) => readonly T[],
+): Promise<T extends PromiseLike<infer U> ? U : never> {
+  return new Promise((resolve, reject) => {
+    if (signal.aborted) {
+      reject(new AbortError(signal.reason));
+      return;
+    }
+
+    const innerAbortController = new AbortController();
+
+    const promises = executor(innerAbortController.signal);
+
+    if (promises.length === 0) {
+      reject(new AggregateErrorBase([], 'All promises were rejected'));
+      return;
+    }
+
+    const abortListener = () => {
+      innerAbortController.abort(signal.reason);
+    };
+
+    signal.addEventListener('abort', abortListener);
+
+    let fulfillment:
+      | {value: T extends PromiseLike<infer U> ? U : never}
+      | undefined;
+    const errors = new Array<unknown>(promises.length);
+
+    let settledCount = 0;
+
+    function settled() {
+      settledCount += 1;
+
+      if (settledCount === promises.length) {
+        signal.removeEventListener('abort', abortListener);
+
+        if (fulfillment != null) {
+          resolve(fulfillment.value);
+        } else if (signal.aborted) {
+          reject(new AbortError(signal.reason));
+        } else {
+          reject(new AggregateErrorBase(errors, 'All promises were rejected'));
+        }
+      }
+    }
+
+    for (const [i, promise] of promises.entries()) {
+      promise.then(
+        value => {
+          innerAbortController.abort(
+            new Error('Another promise has been fulfilled'),
+          );
+
+          if (fulfillment == null) {
+            fulfillment = {value};
+          }
+
+          settled();
+        },
+        reason => {
+          errors[i] = reason;
+
+          settled();
+        },
+      );
+    }
+  });
+}
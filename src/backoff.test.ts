@@ -0,0 +1,103 @@
+import {
+  Backoff,
+  constantBackoff,
+  exponentialBackoff,
+  fibonacciBackoff,
+  linearBackoff,
+} from './backoff';
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+function delays(backoff: Backoff, count: number) {
+  const result: number[] = [];
+  let previousDelayMs: number | undefined;
+
+  for (let attempt = 0; attempt < count; attempt++) {
+    previousDelayMs = backoff(attempt, {previousDelayMs});
+    result.push(previousDelayMs);
+  }
+
+  return result;
+}
+
+test('exponentialBackoff', () => {
+  jest.spyOn(Math, 'random').mockReturnValue(0.5);
+
+  expect(delays(exponentialBackoff({baseMs: 100}), 5)).toEqual([
+    75,
+    150,
+    300,
+    600,
+    1200,
+  ]);
+  expect(
+    delays(exponentialBackoff({baseMs: 100, maxDelayMs: 300}), 5),
+  ).toEqual([75, 150, 225, 225, 225]);
+  expect(delays(exponentialBackoff({baseMs: 100, jitter: 'none'}), 4)).toEqual([
+    100,
+    200,
+    400,
+    800,
+  ]);
+  expect(delays(exponentialBackoff({baseMs: 100, jitter: 'full'}), 4)).toEqual([
+    50,
+    100,
+    200,
+    400,
+  ]);
+});
+
+test('exponentialBackoff with decorrelated jitter', () => {
+  const backoff = exponentialBackoff({
+    baseMs: 100,
+    maxDelayMs: 1000,
+    jitter: 'decorrelated',
+  });
+
+  jest.spyOn(Math, 'random').mockReturnValue(0);
+  expect(delays(backoff, 3)).toEqual([100, 100, 100]);
+
+  jest.spyOn(Math, 'random').mockReturnValue(1);
+  expect(delays(backoff, 4)).toEqual([300, 900, 1000, 1000]);
+});
+
+test('linearBackoff', () => {
+  expect(delays(linearBackoff({baseMs: 100, maxDelayMs: 250}), 4)).toEqual([
+    100,
+    200,
+    250,
+    250,
+  ]);
+});
+
+test('fibonacciBackoff', () => {
+  expect(delays(fibonacciBackoff({baseMs: 100}), 6)).toEqual([
+    100,
+    100,
+    200,
+    300,
+    500,
+    800,
+  ]);
+  expect(delays(fibonacciBackoff({baseMs: 100, maxDelayMs: 400}), 6)).toEqual([
+    100,
+    100,
+    200,
+    300,
+    400,
+    400,
+  ]);
+});
+
+test('constantBackoff', () => {
+  expect(delays(constantBackoff(100), 3)).toEqual([100, 100, 100]);
+});
+
+test('random from context', () => {
+  const backoff = exponentialBackoff({baseMs: 100, jitter: 'full'});
+
+  expect(backoff(1, {random: () => 0.25})).toBe(50);
+  expect(backoff(1, {random: () => 0.75})).toBe(150);
+});
@@ -0,0 +1,158 @@
+export type BackoffContext = {
+  /**
+   * Delay before the previous retry in milliseconds, or `undefined` before the
+   * first retry.
+   */
+  previousDelayMs?: number;
+  /**
+   * Source of random numbers for jitter, taken from `clock` option of `retry`
+   * and `proactiveRetry`.
+   *
+   * Defaults to `Math.random`.
+   */
+  random?: () => number;
+};
+
+/**
+ * Computes the delay in milliseconds before retrying after a failed attempt.
+ *
+ * Receives the number of the failed attempt starting with 0.
+ *
+ * Any function of this shape can be used as a custom backoff strategy.
+ */
+export type Backoff = (attempt: number, context: BackoffContext) => number;
+
+/**
+ * Jitter spreads retries of concurrent callers over time.
+ *
+ * - `'none'`: no jitter.
+ * - `'full'`: random delay between 0 and the computed delay.
+ * - `'equal'`: random delay between half of the computed delay and the
+ *   computed delay.
+ *
+ * See https://aws.amazon.com/ru/blogs/architecture/exponential-backoff-and-jitter/
+ */
+export type Jitter = 'none' | 'full' | 'equal';
+
+export type ExponentialBackoffOptions = {
+  /**
+   * Delay before the first retry in milliseconds.
+   *
+   * Defaults to 1000.
+   */
+  baseMs?: number;
+  /**
+   * Maximum delay in milliseconds.
+   *
+   * Defaults to `Infinity`.
+   */
+  maxDelayMs?: number;
+  /**
+   * Defaults to `'equal'`.
+   *
+   * `'decorrelated'` jitter picks a random delay between `baseMs` and three
+   * times the previous delay.
+   */
+  jitter?: Jitter | 'decorrelated';
+};
+
+/**
+ * Exponential backoff: delays grow as `baseMs`, `2 * baseMs`, `4 * baseMs`
+ * etc (not counting jitter).
+ */
+export function exponentialBackoff(
+  options: ExponentialBackoffOptions = {},
+): Backoff {
+  const {baseMs = 1000, maxDelayMs = Infinity, jitter = 'equal'} = options;
+
+  if (jitter === 'decorrelated') {
+    return (attempt, {previousDelayMs = baseMs, random = Math.random}) => {
+      const delayMs =
+        baseMs + random() * (Math.max(previousDelayMs, baseMs) * 3 - baseMs);
+
+      return Math.round(Math.min(maxDelayMs, delayMs));
+    };
+  }
+
+  return (attempt, {random = Math.random}) =>
+    applyJitter(
+      Math.min(maxDelayMs, Math.pow(2, attempt) * baseMs),
+      jitter,
+      random,
+    );
+}
+
+export type LinearBackoffOptions = {
+  /**
+   * Delay before the first retry in milliseconds.
+   *
+   * Defaults to 1000.
+   */
+  baseMs?: number;
+  /**
+   * Maximum delay in milliseconds.
+   *
+   * Defaults to `Infinity`.
+   */
+  maxDelayMs?: number;
+  /**
+   * Defaults to `'none'`.
+   */
+  jitter?: Jitter;
+};
+
+/**
+ * Linear backoff: delays grow as `baseMs`, `2 * baseMs`, `3 * baseMs` etc
+ * (not counting jitter).
+ */
+export function linearBackoff(options: LinearBackoffOptions = {}): Backoff {
+  const {baseMs = 1000, maxDelayMs = Infinity, jitter = 'none'} = options;
+
+  return (attempt, {random = Math.random}) =>
+    applyJitter(Math.min(maxDelayMs, (attempt + 1) * baseMs), jitter, random);
+}
+
+export type FibonacciBackoffOptions = LinearBackoffOptions;
+
+/**
+ * Fibonacci backoff: delays grow as `baseMs`, `baseMs`, `2 * baseMs`,
+ * `3 * baseMs`, `5 * baseMs` etc (not counting jitter).
+ */
+export function fibonacciBackoff(
+  options: FibonacciBackoffOptions = {},
+): Backoff {
+  const {baseMs = 1000, maxDelayMs = Infinity, jitter = 'none'} = options;
+
+  return (attempt, {random = Math.random}) => {
+    let current = 1;
+    let next = 1;
+
+    for (let i = 0; i < attempt && current * baseMs < maxDelayMs; i++) {
+      [current, next] = [next, current + next];
+    }
+
+    return applyJitter(Math.min(maxDelayMs, current * baseMs), jitter, random);
+  };
+}
+
+/**
+ * Constant backoff: the same delay before each retry.
+ */
+export function constantBackoff(delayMs: number): Backoff {
+  return () => delayMs;
+}
+
+function applyJitter(
+  delayMs: number,
+  jitter: Jitter,
+  random: () => number,
+): number {
+  switch (jitter) {
+    case 'none':
+      return delayMs;
+    case 'full':
+      return Math.round(delayMs * random());
+    case 'equal':
+      return Math.round((delayMs * (1 + random())) / 2);
+  }
+}
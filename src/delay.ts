@@ -1,5 +1,15 @@
+import {Clock, systemClock} from './Clock';
 import {execute} from './execute';
 
+export type DelayOptions = {
+  /**
+   * Clock used to measure time.
+   *
+   * Defaults to `systemClock`.
+   */
+  clock?: Clock;
+};
+
 /**
  * Returns a promise that fulfills after delay and rejects with
  * `AbortError` once `signal` is aborted.
@@ -15,32 +25,23 @@ import {execute} from './execute';
  *       await delay(signal, 1000);
  *     }
  * 
- * Example:
- * 
- *     // Make requests repeatedly with a fixed interval
- *     import {addMilliseconds} from 'date-fns';
- * 
- *     let date = new Date();
- * 
- *     while (true) {
- *       await makeRequest(signal, params);
- *       
- *       date = addMilliseconds(date, 1000);
- *       await delay(signal, date);
- *     }
+ * To make requests with a fixed interval, use `interval`.
  */
 export function delay(
   signal: AbortSignal,
   dueTime: number | Date,
+  options: DelayOptions = {},
 ): Promise<void> {
+  const {clock = systemClock} = options;
+
   return execute<void>(signal, resolve => {
     const ms =
-      typeof dueTime === 'number' ? dueTime : dueTime.getTime() - Date.now();
+      typeof dueTime === 'number' ? dueTime : dueTime.getTime() - clock.now();
 
-    const timer = setTimeout(resolve, ms);
+    const timer = clock.setTimeout(resolve, ms);
 
     return () => {
-      clearTimeout(timer);
+      clock.clearTimeout(timer);
     };
   });
 }
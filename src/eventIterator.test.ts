@@ -0,0 +1,223 @@
+import {EventEmitter} from 'events';
+import {eventIterator} from './eventIterator';
+import {testAbortReason} from './utils/abortReason';
+import {nextTick} from './utils/nextTick';
+
+test('buffer events between steps', async () => {
+  const abortController = new AbortController();
+  const signal = abortController.signal;
+
+  const emitter = new EventEmitter();
+
+  const iterator = eventIterator<number>(signal, emitter, 'test');
+
+  emitter.emit('test', 1);
+  emitter.emit('test', 2);
+
+  await expect(iterator.next()).resolves.toEqual({done: false, value: 1});
+  await expect(iterator.next()).resolves.toEqual({done: false, value: 2});
+
+  const promise = iterator.next();
+
+  emitter.emit('test', 3, 'extra');
+
+  await expect(promise).resolves.toEqual({done: false, value: [3, 'extra']});
+});
+
+test('external abort', async () => {
+  const abortController = new AbortController();
+  const signal = abortController.signal;
+  signal.addEventListener = jest.fn(signal.addEventListener);
+  signal.removeEventListener = jest.fn(signal.removeEventListener);
+
+  const emitter = new EventEmitter();
+
+  const values: number[] = [];
+  let result: PromiseSettledResult<void> | undefined;
+
+  (async () => {
+    for await (const value of eventIterator<number>(signal, emitter, 'test')) {
+      values.push(value);
+    }
+  })().then(
+    value => {
+      result = {status: 'fulfilled', value};
+    },
+    reason => {
+      result = {status: 'rejected', reason};
+    },
+  );
+
+  emitter.emit('test', 1);
+
+  await nextTick();
+
+  expect(values).toEqual([1]);
+  expect(emitter.listenerCount('test')).toBe(1);
+
+  abortController.abort();
+
+  await nextTick();
+
+  expect(result).toMatchObject({
+    status: 'rejected',
+    reason: {name: 'AbortError'},
+  });
+  expect(emitter.listenerCount('test')).toBe(0);
+
+  expect(signal.addEventListener).toHaveBeenCalledTimes(1);
+  expect(signal.removeEventListener).toHaveBeenCalledTimes(1);
+});
+
+test('break', async () => {
+  const abortController = new AbortController();
+  const signal = abortController.signal;
+  signal.addEventListener = jest.fn(signal.addEventListener);
+  signal.removeEventListener = jest.fn(signal.removeEventListener);
+
+  const emitter = new EventEmitter();
+
+  const values: number[] = [];
+
+  const promise = (async () => {
+    for await (const value of eventIterator<number>(signal, emitter, 'test')) {
+      values.push(value);
+
+      if (value === 2) {
+        break;
+      }
+    }
+  })();
+
+  emitter.emit('test', 1);
+  emitter.emit('test', 2);
+  emitter.emit('test', 3);
+
+  await promise;
+
+  expect(values).toEqual([1, 2]);
+  expect(emitter.listenerCount('test')).toBe(0);
+
+  expect(signal.addEventListener).toHaveBeenCalledTimes(1);
+  expect(signal.removeEventListener).toHaveBeenCalledTimes(1);
+});
+
+test('abort before iterate', async () => {
+  const abortController = new AbortController();
+  const signal = abortController.signal;
+  signal.addEventListener = jest.fn(signal.addEventListener);
+  signal.removeEventListener = jest.fn(signal.removeEventListener);
+  abortController.abort();
+
+  const emitter = new EventEmitter();
+
+  const iterator = eventIterator<number>(signal, emitter, 'test');
+
+  await expect(iterator.next()).rejects.toMatchObject({name: 'AbortError'});
+  await expect(iterator.next()).resolves.toEqual({
+    done: true,
+    value: undefined,
+  });
+
+  expect(emitter.listenerCount('test')).toBe(0);
+
+  expect(signal.addEventListener).not.toHaveBeenCalled();
+  expect(signal.removeEventListener).not.toHaveBeenCalled();
+});
+
+testAbortReason('abort reason', async () => {
+  const emitter = new EventEmitter();
+
+  const abortController = new AbortController();
+  const iterator = eventIterator<number>(
+    abortController.signal,
+    emitter,
+    'test',
+  );
+
+  const promise = iterator.next();
+
+  abortController.abort('shutdown');
+
+  await expect(promise).rejects.toMatchObject({
+    name: 'AbortError',
+    reason: 'shutdown',
+  });
+
+  const abortedController = new AbortController();
+  abortedController.abort('shutdown');
+
+  await expect(
+    eventIterator<number>(abortedController.signal, emitter, 'test').next(),
+  ).rejects.toMatchObject({
+    name: 'AbortError',
+    reason: 'shutdown',
+  });
+});
+
+test('overflow: dropOldest', async () => {
+  const signal = new AbortController().signal;
+  const emitter = new EventEmitter();
+
+  const iterator = eventIterator<number>(signal, emitter, 'test', {
+    bufferSize: 2,
+    overflow: 'dropOldest',
+  });
+
+  emitter.emit('test', 1);
+  emitter.emit('test', 2);
+  emitter.emit('test', 3);
+
+  await expect(iterator.next()).resolves.toEqual({done: false, value: 2});
+  await expect(iterator.next()).resolves.toEqual({done: false, value: 3});
+
+  await iterator.return!();
+});
+
+test('overflow: dropNewest', async () => {
+  const signal = new AbortController().signal;
+  const emitter = new EventEmitter();
+
+  const iterator = eventIterator<number>(signal, emitter, 'test', {
+    bufferSize: 2,
+    overflow: 'dropNewest',
+  });
+
+  emitter.emit('test', 1);
+  emitter.emit('test', 2);
+  emitter.emit('test', 3);
+
+  await expect(iterator.next()).resolves.toEqual({done: false, value: 1});
+  await expect(iterator.next()).resolves.toEqual({done: false, value: 2});
+
+  await iterator.return!();
+});
+
+test('overflow: throw', async () => {
+  const abortController = new AbortController();
+  const signal = abortController.signal;
+  signal.addEventListener = jest.fn(signal.addEventListener);
+  signal.removeEventListener = jest.fn(signal.removeEventListener);
+
+  const emitter = new EventEmitter();
+
+  const iterator = eventIterator<number>(signal, emitter, 'test', {
+    bufferSize: 1,
+  });
+
+  emitter.emit('test', 1);
+  emitter.emit('test', 2);
+
+  expect(emitter.listenerCount('test')).toBe(0);
+
+  await expect(iterator.next()).rejects.toMatchObject({
+    message: 'Event buffer overflow (bufferSize: 1)',
+  });
+  await expect(iterator.next()).resolves.toEqual({
+    done: true,
+    value: undefined,
+  });
+
+  expect(signal.addEventListener).toHaveBeenCalledTimes(1);
+  expect(signal.removeEventListener).toHaveBeenCalledTimes(1);
+});
@@ -0,0 +1,169 @@
+import {AbortError} from './AbortError';
+import {listen} from './utils/listen';
+import {EventTargetLike} from './waitForEvent';
+
+export type EventIteratorOptions = EventTargetLike.EventListenerOptions & {
+  /**
+   * Maximum number of events buffered while the consumer is busy.
+   *
+   * Defaults to 1000.
+   */
+  bufferSize?: number;
+  /**
+   * What to do when an event arrives while the buffer is full:
+   *
+   * - `'dropOldest'`: discard the oldest buffered event to make room.
+   * - `'dropNewest'`: discard the incoming event.
+   * - `'throw'`: stop listening and reject with an error.
+   *
+   * Defaults to `'throw'`.
+   */
+  overflow?: 'dropOldest' | 'dropNewest' | 'throw';
+};
+
+/**
+ * Returns an async iterator of events of specific type emitted from given
+ * event target. Iteration rejects with `AbortError` once `signal` is aborted.
+ *
+ * Starts listening immediately, so that events emitted while the consumer is
+ * busy are buffered instead of being lost. Stops listening when `signal` is
+ * aborted, when the buffer overflows with `'throw'` policy, or when the loop
+ * exits early, e.g. via `break` or exception.
+ *
+ * Example:
+ *
+ *     for await (const message of eventIterator<MessageEvent>(
+ *       signal,
+ *       webSocket,
+ *       'message',
+ *     )) {
+ *       await handleMessage(signal, message.data);
+ *     }
+ */
+export function eventIterator<T>(
+  signal: AbortSignal,
+  target: EventTargetLike<T>,
+  eventName: string | symbol,
+  options: EventIteratorOptions = {},
+): AsyncIterableIterator<T> {
+  const {bufferSize = 1000, overflow = 'throw', ...listenerOptions} = options;
+
+  const buffer: T[] = [];
+  const waiters: Array<{
+    resolve: (result: IteratorResult<T, undefined>) => void;
+    reject: (reason?: any) => void;
+  }> = [];
+
+  /**
+   * Set once listeners are removed. Failure is reported once, after that the
+   * iterator is done.
+   */
+  let finished = false;
+  let failure: {error: unknown} | undefined;
+
+  let unlisten: (() => void) | undefined;
+
+  const abortListener = () => {
+    fail(new AbortError(signal.reason));
+  };
+
+  function finish() {
+    if (!finished) {
+      finished = true;
+      buffer.length = 0;
+
+      signal.removeEventListener('abort', abortListener);
+
+      if (unlisten != null) {
+        unlisten();
+      }
+    }
+  }
+
+  function fail(error: unknown) {
+    finish();
+
+    const waiter = waiters.shift();
+
+    if (waiter == null) {
+      failure = {error};
+    } else {
+      waiter.reject(error);
+    }
+
+    for (const waiter of waiters.splice(0)) {
+      waiter.resolve({done: true, value: undefined});
+    }
+  }
+
+  const handler = (...args: any[]) => {
+    const event: T = args.length > 1 ? args : args[0];
+
+    const waiter = waiters.shift();
+
+    if (waiter != null) {
+      waiter.resolve({done: false, value: event});
+      return;
+    }
+
+    if (buffer.length < bufferSize) {
+      buffer.push(event);
+      return;
+    }
+
+    if (overflow === 'dropOldest') {
+      if (buffer.length > 0) {
+        buffer.shift();
+        buffer.push(event);
+      }
+    } else if (overflow === 'throw') {
+      fail(new Error(`Event buffer overflow (bufferSize: ${bufferSize})`));
+    }
+  };
+
+  if (signal.aborted) {
+    finished = true;
+    failure = {error: new AbortError(signal.reason)};
+  } else {
+    unlisten = listen(target, eventName, handler, listenerOptions);
+    signal.addEventListener('abort', abortListener);
+  }
+
+  return {
+    next() {
+      if (buffer.length > 0) {
+        return Promise.resolve({done: false, value: buffer.shift()!});
+      }
+
+      if (failure != null) {
+        const {error} = failure;
+        failure = undefined;
+
+        return Promise.reject(error);
+      }
+
+      if (finished) {
+        return Promise.resolve({done: true, value: undefined});
+      }
+
+      return new Promise((resolve, reject) => {
+        waiters.push({resolve, reject});
+      });
+    },
+
+    return() {
+      finish();
+      failure = undefined;
+
+      for (const waiter of waiters.splice(0)) {
+        waiter.resolve({done: true, value: undefined});
+      }
+
+      return Promise.resolve({done: true, value: undefined});
+    },
+
+    [Symbol.asyncIterator]() {
+      return this;
+    },
+  };
+}
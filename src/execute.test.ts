@@ -1,5 +1,6 @@
 import defer from 'defer-promise';
 import {execute} from './execute';
+import {testAbortReason} from './utils/abortReason';
 import {nextTick} from './utils/nextTick';
 
 test('resolve immediately', async () => {
@@ -317,3 +318,17 @@ test('async abort callback rejection', async () => {
   expect(signal.addEventListener).toHaveBeenCalledTimes(1);
   expect(signal.removeEventListener).toHaveBeenCalledTimes(1);
 });
+
+testAbortReason('abort reason', async () => {
+  const abortController = new AbortController();
+  const signal = abortController.signal;
+
+  const promise = execute<string>(signal, () => () => {});
+
+  abortController.abort('shutdown');
+
+  await expect(promise).rejects.toMatchObject({
+    name: 'AbortError',
+    reason: 'shutdown',
+  });
+});
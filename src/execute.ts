@@ -4,7 +4,8 @@ import {AbortError} from './AbortError';
  * Similar to `new Promise(executor)`, but allows executor to return abort
  * callback that is called once `signal` is aborted.
  *
- * Returned promise rejects with `AbortError` once `signal` is aborted.
+ * Returned promise rejects with `AbortError` once `signal` is aborted. The
+ * error carries `signal.reason`.
  *
  * Callback can return a promise, e.g. for doing any async cleanup. In this
  * case, the promise returned from `execute` rejects with `AbortError` after
@@ -19,7 +20,7 @@ export function execute<T>(
 ): Promise<T> {
   return new Promise<T>((resolve, reject) => {
     if (signal.aborted) {
-      reject(new AbortError());
+      reject(new AbortError(signal.reason));
       return;
     }
 
@@ -51,11 +52,11 @@ export function execute<T>(
         const callbackResult = callback();
 
         if (callbackResult == null) {
-          reject(new AbortError());
+          reject(new AbortError(signal.reason));
         } else {
           callbackResult.then(
             () => {
-              reject(new AbortError());
+              reject(new AbortError(signal.reason));
             },
             reason => {
               reject(reason);
@@ -10,3 +10,26 @@ export * from './retry';
 export * from './spawn';
 export * from './run';
 export * from './proactiveRetry';
+export * from './abortableIterable';
+export * from './eventIterator';
+export * from './TimeoutError';
+export * from './timeout';
+export * from './pool';
+export * from './allSettled';
+export * from './any';
+export * from './Semaphore';
+export * from './RWLock';
+export * from './KeyedMutex';
+export * from './Channel';
+export * from './backoff';
+export * from './RetryError';
+export * from './RetryBudget';
+export * from './CircuitBreaker';
+export * from './LatencyHistogram';
+export * from './Clock';
+export * from './VirtualClock';
+export * from './taskTree';
+export * from './supervise';
+export * from './SpawnError';
+export * from './runMain';
+export * from './interval';
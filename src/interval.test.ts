@@ -0,0 +1,86 @@
+import {delay} from './delay';
+import {interval, IntervalMode, IntervalTick} from './interval';
+import {VirtualClock} from './VirtualClock';
+
+async function collectTicks(mode: IntervalMode) {
+  const clock = new VirtualClock();
+  const signal = new AbortController().signal;
+
+  const ticks: IntervalTick[] = [];
+
+  const promise = (async () => {
+    for await (const tick of interval(signal, 100, {mode, clock})) {
+      ticks.push(tick);
+
+      if (tick.index === 0) {
+        await delay(signal, 250, {clock});
+      }
+
+      if (tick.index === 3) {
+        break;
+      }
+    }
+  })();
+
+  await clock.runAll();
+  await promise;
+
+  expect(clock.pendingTimers).toBe(0);
+
+  return ticks;
+}
+
+test('fixed-rate-catch-up', async () => {
+  expect(await collectTicks('fixed-rate-catch-up')).toEqual([
+    {index: 0, scheduledTime: 0, actualTime: 0, missed: 0},
+    {index: 1, scheduledTime: 100, actualTime: 250, missed: 0},
+    {index: 2, scheduledTime: 200, actualTime: 250, missed: 0},
+    {index: 3, scheduledTime: 300, actualTime: 300, missed: 0},
+  ]);
+});
+
+test('fixed-rate-skip', async () => {
+  expect(await collectTicks('fixed-rate-skip')).toEqual([
+    {index: 0, scheduledTime: 0, actualTime: 0, missed: 0},
+    {index: 1, scheduledTime: 300, actualTime: 300, missed: 2},
+    {index: 2, scheduledTime: 400, actualTime: 400, missed: 0},
+    {index: 3, scheduledTime: 500, actualTime: 500, missed: 0},
+  ]);
+});
+
+test('fixed-delay', async () => {
+  expect(await collectTicks('fixed-delay')).toEqual([
+    {index: 0, scheduledTime: 0, actualTime: 0, missed: 0},
+    {index: 1, scheduledTime: 350, actualTime: 350, missed: 0},
+    {index: 2, scheduledTime: 450, actualTime: 450, missed: 0},
+    {index: 3, scheduledTime: 550, actualTime: 550, missed: 0},
+  ]);
+});
+
+test('abort', async () => {
+  const clock = new VirtualClock();
+  const abortController = new AbortController();
+
+  const ticks: number[] = [];
+
+  const promise = (async () => {
+    for await (const tick of interval(abortController.signal, 100, {clock})) {
+      ticks.push(tick.index);
+    }
+  })();
+
+  await clock.advance(150);
+
+  abortController.abort();
+
+  await expect(promise).rejects.toMatchObject({name: 'AbortError'});
+
+  expect(ticks).toEqual([0, 1]);
+  expect(clock.pendingTimers).toBe(0);
+});
+
+test('invalid period', async () => {
+  await expect(
+    interval(new AbortController().signal, 0).next(),
+  ).rejects.toThrow('Invalid period: 0');
+});
@@ -0,0 +1,117 @@
+import {throwIfAborted} from './AbortError';
+import {Clock, systemClock} from './Clock';
+import {delay} from './delay';
+
+/**
+ * Decides when the next tick happens if the consumer is slower than the
+ * period.
+ *
+ * - `'fixed-rate-catch-up'`: ticks are scheduled every `periodMs` from the
+ *   start. Late ticks are yielded right away one after another until the
+ *   schedule is caught up.
+ * - `'fixed-rate-skip'`: ticks are scheduled every `periodMs` from the start.
+ *   Ticks whose time has passed while the consumer was busy are skipped and
+ *   counted in `missed`.
+ * - `'fixed-delay'`: each tick is scheduled `periodMs` after the consumer
+ *   finishes handling the previous one.
+ */
+export type IntervalMode =
+  | 'fixed-rate-catch-up'
+  | 'fixed-rate-skip'
+  | 'fixed-delay';
+
+export type IntervalOptions = {
+  /**
+   * Defaults to `'fixed-rate-skip'`.
+   */
+  mode?: IntervalMode;
+  /**
+   * Clock used to measure time.
+   *
+   * Defaults to `systemClock`.
+   */
+  clock?: Clock;
+};
+
+export type IntervalTick = {
+  /**
+   * Number of the tick starting with 0.
+   */
+  index: number;
+  /**
+   * Unix time in milliseconds when the tick was scheduled.
+   */
+  scheduledTime: number;
+  /**
+   * Unix time in milliseconds when the tick actually happened.
+   */
+  actualTime: number;
+  /**
+   * Number of ticks skipped right before this one in `'fixed-rate-skip'` mode.
+   * Always 0 in other modes.
+   */
+  missed: number;
+};
+
+/**
+ * Returns an async iterable that yields a tick right away and then every
+ * `periodMs` milliseconds, and throws `AbortError` once `signal` is aborted.
+ *
+ * The next tick is not scheduled until the consumer finishes handling the
+ * previous one, so ticks never overlap. Breaking out of the loop stops the
+ * interval.
+ *
+ * Example:
+ *
+ *     // Make a request every second
+ *     for await (const tick of interval(signal, 1000)) {
+ *       if (tick.missed > 0) {
+ *         console.warn(`Missed ${tick.missed} ticks`);
+ *       }
+ *
+ *       await makeRequest(signal, params);
+ *     }
+ */
+export async function* interval(
+  signal: AbortSignal,
+  periodMs: number,
+  options: IntervalOptions = {},
+): AsyncGenerator<IntervalTick, void, undefined> {
+  const {mode = 'fixed-rate-skip', clock = systemClock} = options;
+
+  if (!(periodMs > 0 && periodMs < Infinity)) {
+    throw new RangeError(`Invalid period: ${periodMs}`);
+  }
+
+  let scheduledTime = clock.now();
+  let missed = 0;
+
+  for (let index = 0; ; index++) {
+    const waitMs = scheduledTime - clock.now();
+
+    if (waitMs > 0) {
+      await delay(signal, waitMs, {clock});
+    } else {
+      throwIfAborted(signal);
+    }
+
+    yield {index, scheduledTime, actualTime: clock.now(), missed};
+
+    if (mode === 'fixed-delay') {
+      scheduledTime = clock.now() + periodMs;
+      continue;
+    }
+
+    scheduledTime += periodMs;
+    missed = 0;
+
+    if (mode === 'fixed-rate-skip') {
+      const now = clock.now();
+
+      if (scheduledTime < now) {
+        missed = Math.ceil((now - scheduledTime) / periodMs);
+        scheduledTime += missed * periodMs;
+      }
+    }
+  }
+}
@@ -0,0 +1,226 @@
+import defer from 'defer-promise';
+import {AbortError} from './AbortError';
+import {execute} from './execute';
+import {mapConcurrent, pool} from './pool';
+import {supportsAbortReason} from './utils/abortReason';
+import {nextTick} from './utils/nextTick';
+
+test('limit concurrency', async () => {
+  const abortController = new AbortController();
+  const signal = abortController.signal;
+  signal.addEventListener = jest.fn(signal.addEventListener);
+  signal.removeEventListener = jest.fn(signal.removeEventListener);
+
+  const deferreds = Array.from({length: 5}, () => defer<number>());
+  const started: number[] = [];
+
+  let result: PromiseSettledResult<number[]> | undefined;
+
+  mapConcurrent(signal, [0, 1, 2, 3, 4], {concurrency: 2}, (signal, item) => {
+    started.push(item);
+    return deferreds[item].promise;
+  }).then(
+    value => {
+      result = {status: 'fulfilled', value};
+    },
+    reason => {
+      result = {status: 'rejected', reason};
+    },
+  );
+
+  await nextTick();
+
+  expect(started).toEqual([0, 1]);
+
+  deferreds[1].resolve(10);
+  await nextTick();
+
+  expect(started).toEqual([0, 1, 2]);
+
+  deferreds[0].resolve(0);
+  deferreds[2].resolve(20);
+  await nextTick();
+
+  expect(started).toEqual([0, 1, 2, 3, 4]);
+
+  deferreds[4].resolve(40);
+  deferreds[3].resolve(30);
+  await nextTick();
+
+  expect(result).toEqual({status: 'fulfilled', value: [0, 10, 20, 30, 40]});
+
+  expect(signal.addEventListener).toHaveBeenCalledTimes(1);
+  expect(signal.removeEventListener).toHaveBeenCalledTimes(1);
+});
+
+test('completion order', async () => {
+  const signal = new AbortController().signal;
+
+  const deferreds = Array.from({length: 3}, () => defer<number>());
+
+  const promise = pool(
+    signal,
+    deferreds.map(deferred => () => deferred.promise),
+    {concurrency: 3, order: 'completion'},
+  );
+
+  deferreds[2].resolve(2);
+  await nextTick();
+  deferreds[0].resolve(0);
+  await nextTick();
+  deferreds[1].resolve(1);
+
+  await expect(promise).resolves.toEqual([2, 0, 1]);
+});
+
+test('reject', async () => {
+  const abortController = new AbortController();
+  const signal = abortController.signal;
+  signal.addEventListener = jest.fn(signal.addEventListener);
+  signal.removeEventListener = jest.fn(signal.removeEventListener);
+
+  const innerSignals: AbortSignal[] = [];
+  const deferreds: Array<DeferPromise.Deferred<void>> = [];
+
+  let result: PromiseSettledResult<void[]> | undefined;
+
+  function* tasks() {
+    for (let i = 0; i < 5; i++) {
+      yield (signal: AbortSignal) => {
+        const deferred = defer<void>();
+
+        innerSignals.push(signal);
+        deferreds.push(deferred);
+
+        return deferred.promise;
+      };
+    }
+  }
+
+  pool(signal, tasks(), {concurrency: 2}).then(
+    value => {
+      result = {status: 'fulfilled', value};
+    },
+    reason => {
+      result = {status: 'rejected', reason};
+    },
+  );
+
+  await nextTick();
+
+  expect(deferreds).toHaveLength(2);
+
+  deferreds[0].reject('test');
+  await nextTick();
+
+  expect(result).toBeUndefined();
+  expect(innerSignals[1].aborted).toBe(true);
+
+  if (supportsAbortReason) {
+    expect(innerSignals[1].reason).toBe('test');
+  }
+
+  deferreds[1].reject(new AbortError());
+  await nextTick();
+
+  expect(result).toEqual({status: 'rejected', reason: 'test'});
+  expect(deferreds).toHaveLength(2);
+
+  expect(signal.addEventListener).toHaveBeenCalledTimes(1);
+  expect(signal.removeEventListener).toHaveBeenCalledTimes(1);
+});
+
+test('external abort', async () => {
+  const abortController = new AbortController();
+  const signal = abortController.signal;
+  signal.addEventListener = jest.fn(signal.addEventListener);
+  signal.removeEventListener = jest.fn(signal.removeEventListener);
+
+  async function* items() {
+    yield 1;
+    yield 2;
+    await new Promise(() => {});
+  }
+
+  let result: PromiseSettledResult<void[]> | undefined;
+
+  mapConcurrent(signal, items(), {concurrency: 5}, signal =>
+    execute<void>(signal, () => () => {}),
+  ).then(
+    value => {
+      result = {status: 'fulfilled', value};
+    },
+    reason => {
+      result = {status: 'rejected', reason};
+    },
+  );
+
+  await nextTick();
+
+  expect(result).toBeUndefined();
+
+  abortController.abort();
+  await nextTick();
+
+  expect(result).toMatchObject({
+    status: 'rejected',
+    reason: {name: 'AbortError'},
+  });
+
+  expect(signal.addEventListener).toHaveBeenCalledTimes(1);
+  expect(signal.removeEventListener).toHaveBeenCalledTimes(1);
+});
+
+test('abort while tasks ignore it', async () => {
+  const abortController = new AbortController();
+  const signal = abortController.signal;
+
+  const deferreds = Array.from({length: 5}, () => defer<number>());
+  const started: number[] = [];
+
+  const promise = mapConcurrent(
+    signal,
+    [0, 1, 2, 3, 4],
+    {concurrency: 2},
+    (signal, item) => {
+      started.push(item);
+      return deferreds[item].promise;
+    },
+  );
+
+  await nextTick();
+
+  abortController.abort();
+
+  deferreds[0].resolve(0);
+  deferreds[1].resolve(1);
+
+  await expect(promise).rejects.toMatchObject({name: 'AbortError'});
+
+  expect(started).toEqual([0, 1]);
+});
+
+test('empty', async () => {
+  const signal = new AbortController().signal;
+
+  await expect(pool(signal, [], {concurrency: 1})).resolves.toEqual([]);
+});
+
+test('abort before pool', async () => {
+  const abortController = new AbortController();
+  const signal = abortController.signal;
+  signal.addEventListener = jest.fn(signal.addEventListener);
+  signal.removeEventListener = jest.fn(signal.removeEventListener);
+  abortController.abort();
+
+  const task = jest.fn(async () => {});
+
+  await expect(pool(signal, [task], {concurrency: 1})).rejects.toMatchObject({
+    name: 'AbortError',
+  });
+
+  expect(task).not.toHaveBeenCalled();
+
+  expect(signal.addEventListener).not.toHaveBeenCalled();
+  expect(signal.removeEventListener).not.toHaveBeenCalled();
+});
@@ -0,0 +1,179 @@
+import {abortableIterable} from './abortableIterable';
+import {isAbortError, throwIfAborted} from './AbortError';
+
+export type PoolOptions = {
+  /**
+   * Maximum number of tasks running at the same time.
+   */
+  concurrency: number;
+  /**
+   * Order of results:
+   *
+   * - `'input'`: results are in the order of tasks.
+   * - `'completion'`: results are in the order tasks fulfilled.
+   *
+   * Defaults to `'input'`.
+   */
+  order?: 'input' | 'completion';
+};
+
+/**
+ * Run abortable tasks with limited concurrency.
+ *
+ * Tasks are taken from `tasks` lazily, only when there's a free slot, so
+ * `tasks` may be a generator of an unbounded or expensive sequence.
+ *
+ * Creates new inner `AbortSignal` and passes it to each task. That signal is
+ * aborted when `signal` is aborted or any of the tasks are rejected. Once the
+ * inner signal is aborted, no more tasks are started.
+ *
+ * Returns a promise that fulfills with an array of results when all of the
+ * tasks fulfill, rejects when any of the tasks are rejected, and rejects with
+ * `AbortError` when `signal` is aborted. Same as with `all`, the promise
+ * settles only after all running tasks settle, and a non-abort error is
+ * preferred over `AbortError`.
+ *
+ * Example:
+ *
+ *     function* tasks() {
+ *       for (const url of urls) {
+ *         yield (signal: AbortSignal) => fetch(url, {signal});
+ *       }
+ *     }
+ *
+ *     const responses = await pool(signal, tasks(), {concurrency: 10});
+ */
+export async function pool<T>(
+  signal: AbortSignal,
+  tasks:
+    | Iterable<(signal: AbortSignal) => PromiseLike<T>>
+    | AsyncIterable<(signal: AbortSignal) => PromiseLike<T>>,
+  options: PoolOptions,
+): Promise<T[]> {
+  const {concurrency, order = 'input'} = options;
+
+  if (!(concurrency >= 1)) {
+    throw new RangeError(`Invalid concurrency: ${concurrency}`);
+  }
+
+  throwIfAborted(signal);
+
+  const innerAbortController = new AbortController();
+  const innerSignal = innerAbortController.signal;
+
+  const abortListener = () => {
+    innerAbortController.abort(signal.reason);
+  };
+
+  signal.addEventListener('abort', abortListener);
+
+  let rejection: {reason: any} | undefined;
+  const results: T[] = [];
+
+  const running = new Set<Promise<void>>();
+
+  function rejected(reason: unknown) {
+    innerAbortController.abort(reason);
+
+    if (
+      rejection == null ||
+      (!isAbortError(reason) && isAbortError(rejection.reason))
+    ) {
+      rejection = {reason};
+    }
+  }
+
+  try {
+    let index = 0;
+
+    for await (const task of abortableIterable(
+      innerSignal,
+      toAsyncIterable(tasks),
+    )) {
+      const i = index++;
+
+      const promise = new Promise<T>(resolve => {
+        resolve(task(innerSignal));
+      }).then(
+        value => {
+          if (order === 'input') {
+            results[i] = value;
+          } else {
+            results.push(value);
+          }
+
+          running.delete(promise);
+        },
+        reason => {
+          rejected(reason);
+
+          running.delete(promise);
+        },
+      );
+
+      running.add(promise);
+
+      while (running.size >= concurrency) {
+        await Promise.race(running);
+      }
+
+      // the running tasks may fulfill despite the abort, but the rest of the
+      // tasks are not started, so the pool must not fulfill
+      throwIfAborted(innerSignal);
+    }
+  } catch (error) {
+    rejected(error);
+  }
+
+  while (running.size > 0) {
+    await Promise.race(running);
+  }
+
+  signal.removeEventListener('abort', abortListener);
+
+  if (rejection != null) {
+    throw rejection.reason;
+  }
+
+  return results;
+}
+
+/**
+ * Map items with an abortable function with limited concurrency.
+ *
+ * Same as `pool`, with a task created for each item of `iterable`. The
+ * function receives inner `AbortSignal`, an item and its index.
+ *
+ * Example:
+ *
+ *     const users = await mapConcurrent(
+ *       signal,
+ *       userIds,
+ *       {concurrency: 10},
+ *       (signal, userId) => fetchUser(signal, userId),
+ *     );
+ */
+export function mapConcurrent<T, R>(
+  signal: AbortSignal,
+  iterable: Iterable<T> | AsyncIterable<T>,
+  options: PoolOptions,
+  fn: (signal: AbortSignal, item: T, index: number) => PromiseLike<R>,
+): Promise<R[]> {
+  async function* tasks() {
+    let index = 0;
+
+    for await (const item of iterable) {
+      const i = index++;
+
+      yield (signal: AbortSignal) => fn(signal, item, i);
+    }
+  }
+
+  return pool(signal, tasks(), options);
+}
+
+async function* toAsyncIterable<T>(
+  iterable: Iterable<T> | AsyncIterable<T>,
+): AsyncGenerator<T, void, undefined> {
+  yield* iterable;
+}
@@ -0,0 +1,259 @@
+import defer from 'defer-promise';
+import {constantBackoff} from './backoff';
+import {delay} from './delay';
+import {execute} from './execute';
+import {LatencyHistogram} from './LatencyHistogram';
+import {proactiveRetry} from './proactiveRetry';
+import {RetryBudget} from './RetryBudget';
+import {RetryAttempt} from './RetryError';
+import {VirtualClock} from './VirtualClock';
+
+test('first success aborts other attempts', async () => {
+  const signal = new AbortController().signal;
+
+  const innerSignals: AbortSignal[] = [];
+
+  await expect(
+    proactiveRetry(
+      signal,
+      async (signal, attempt) => {
+        innerSignals.push(signal);
+
+        if (attempt === 0) {
+          return execute<string>(signal, () => () => {});
+        }
+
+        return 'test';
+      },
+      {backoff: constantBackoff(5)},
+    ),
+  ).resolves.toBe('test');
+
+  expect(innerSignals).toHaveLength(2);
+  expect(innerSignals[0].aborted).toBe(true);
+});
+
+test('attempt timeout', async () => {
+  const signal = new AbortController().signal;
+
+  const innerSignals: AbortSignal[] = [];
+
+  const onError = jest.fn();
+
+  await expect(
+    proactiveRetry(
+      signal,
+      signal => {
+        innerSignals.push(signal);
+
+        return execute<void>(signal, () => () => {});
+      },
+      {
+        backoff: constantBackoff(5),
+        maxAttempts: 2,
+        attemptTimeoutMs: 10,
+        onError,
+      },
+    ),
+  ).rejects.toMatchObject({
+    name: 'TimeoutError',
+    message: 'Attempt timed out: attemptTimeoutMs of 10ms elapsed',
+  });
+
+  expect(innerSignals).toHaveLength(2);
+  expect(innerSignals[0].aborted).toBe(true);
+  expect(innerSignals[1].aborted).toBe(true);
+  expect(onError).toHaveBeenCalledTimes(1);
+});
+
+test('maxElapsedMs', async () => {
+  const signal = new AbortController().signal;
+
+  const innerSignals: AbortSignal[] = [];
+
+  await expect(
+    proactiveRetry(
+      signal,
+      async (signal, attempt) => {
+        innerSignals.push(signal);
+
+        if (attempt === 0) {
+          throw new Error('test');
+        }
+
+        return execute<void>(signal, () => () => {});
+      },
+      {backoff: constantBackoff(5), maxElapsedMs: 20},
+    ),
+  ).rejects.toMatchObject({
+    name: 'TimeoutError',
+    message: 'Retry time limit exceeded: maxElapsedMs of 20ms elapsed',
+    cause: new Error('test'),
+  });
+
+  expect(innerSignals.length).toBeGreaterThan(1);
+  expect(innerSignals.every(signal => signal.aborted)).toBe(true);
+});
+
+test('aggregateErrors', async () => {
+  const signal = new AbortController().signal;
+
+  const onSuccess = jest.fn();
+  const onGiveUp = jest.fn();
+
+  const promise = proactiveRetry(
+    signal,
+    async (signal, attempt) => {
+      if (attempt === 0) {
+        await execute(signal, resolve => {
+          const timer = setTimeout(resolve, 20);
+
+          return () => {
+            clearTimeout(timer);
+          };
+        });
+      }
+
+      throw new Error(`attempt ${attempt}`);
+    },
+    {
+      backoff: constantBackoff(5),
+      maxAttempts: 2,
+      aggregateErrors: true,
+      onSuccess,
+      onGiveUp,
+    },
+  );
+
+  await expect(promise).rejects.toMatchObject({
+    name: 'RetryError',
+    attempts: [
+      {attempt: 0, error: new Error('attempt 0'), delayMs: 5},
+      {attempt: 1, error: new Error('attempt 1')},
+    ],
+  });
+
+  const error = await promise.catch(error => error);
+
+  expect(error.errors).toEqual(
+    error.attempts.map((attempt: RetryAttempt) => attempt.error),
+  );
+
+  expect(onSuccess).not.toHaveBeenCalled();
+  expect(onGiveUp).toHaveBeenCalledTimes(1);
+  expect(onGiveUp).toHaveBeenCalledWith(error, 0);
+});
+
+test('retry budget', async () => {
+  const signal = new AbortController().signal;
+
+  const retryBudget = new RetryBudget({retryRatio: 0, minRetriesPerSecond: 0});
+
+  const fn = jest.fn(async () => {
+    throw new Error('test');
+  });
+
+  await expect(
+    proactiveRetry(signal, fn, {backoff: constantBackoff(1000), retryBudget}),
+  ).rejects.toThrow('test');
+
+  expect(fn).toHaveBeenCalledTimes(1);
+});
+
+test('adaptive hedging', async () => {
+  const signal = new AbortController().signal;
+
+  const latencyHistogram = new LatencyHistogram({minSamples: 1});
+
+  latencyHistogram.record(10);
+
+  const startTimes: number[] = [];
+
+  await expect(
+    proactiveRetry(
+      signal,
+      async (signal, attempt) => {
+        startTimes.push(Date.now());
+
+        if (attempt === 0) {
+          return execute<string>(signal, () => () => {});
+        }
+
+        return 'test';
+      },
+      {backoff: constantBackoff(5000), latencyHistogram},
+    ),
+  ).resolves.toBe('test');
+
+  expect(startTimes).toHaveLength(2);
+  expect(startTimes[1] - startTimes[0]).toBeLessThan(1000);
+
+  // latency of both attempts is recorded
+  expect(latencyHistogram.size).toBe(3);
+});
+
+test('adaptive hedging: percentile does not shrink', async () => {
+  const clock = new VirtualClock();
+  const signal = new AbortController().signal;
+
+  const latencyHistogram = new LatencyHistogram({minSamples: 1});
+
+  latencyHistogram.record(100);
+
+  for (let i = 0; i < 5; i++) {
+    const promise = proactiveRetry(
+      signal,
+      async (signal, attempt) => {
+        if (attempt === 0) {
+          // slow attempt that a hedge beats
+          await delay(signal, 150, {clock});
+        }
+
+        return 'test';
+      },
+      {
+        backoff: constantBackoff(5000),
+        latencyHistogram,
+        hedgePercentile: 0.5,
+        clock,
+      },
+    );
+
+    await clock.runAll();
+    await expect(promise).resolves.toBe('test');
+  }
+
+  expect(latencyHistogram.percentile(0.5)).toBe(100);
+});
+
+test('maxInFlight', async () => {
+  const signal = new AbortController().signal;
+
+  const deferreds: Array<DeferPromise.Deferred<string>> = [];
+
+  const promise = proactiveRetry(
+    signal,
+    () => {
+      const deferred = defer<string>();
+
+      deferreds.push(deferred);
+
+      return deferred.promise;
+    },
+    {backoff: constantBackoff(1), maxInFlight: 2},
+  );
+
+  await delay(signal, 20);
+
+  expect(deferreds).toHaveLength(2);
+
+  deferreds[0].reject(new Error('test'));
+
+  await delay(signal, 20);
+
+  expect(deferreds).toHaveLength(3);
+
+  deferreds[2].resolve('test');
+
+  await expect(promise).resolves.toBe('test');
+});
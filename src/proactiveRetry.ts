@@ -1,6 +1,12 @@
 import {isAbortError, catchAbortError} from './AbortError';
+import {Backoff, exponentialBackoff} from './backoff';
+import {Clock, systemClock} from './Clock';
 import {delay} from './delay';
 import {execute} from './execute';
+import {LatencyHistogram} from './LatencyHistogram';
+import {RetryBudget} from './RetryBudget';
+import {RetryAttempt, RetryError} from './RetryError';
+import {getRetryDeadline, withAttemptTimeout} from './utils/retryLimits';
 
 export type ProactiveRetryOptions = {
   /**
@@ -12,18 +18,112 @@ export type ProactiveRetryOptions = {
    * 200ms, 400ms etc (not counting jitter).
    */
   baseMs?: number;
+  /**
+   * Maximum delay between attempts in milliseconds.
+   *
+   * Defaults to `Infinity`.
+   */
+  maxDelayMs?: number;
+  /**
+   * Strategy for computing delays between attempts.
+   *
+   * Defaults to exponential backoff with equal jitter based on `baseMs` and
+   * `maxDelayMs`. If specified, `baseMs` and `maxDelayMs` are ignored.
+   */
+  backoff?: Backoff;
   /**
    * Maximum for the total number of attempts.
    *
    * Defaults to `Infinity`.
    */
   maxAttempts?: number;
+  /**
+   * Maximum total time in milliseconds for all attempts.
+   *
+   * Once the time is out, the running attempts are aborted, and
+   * `proactiveRetry` rejects with `TimeoutError` with the error of the last
+   * failed attempt as `cause`.
+   *
+   * Defaults to `Infinity`.
+   */
+  maxElapsedMs?: number;
+  /**
+   * Same as `maxElapsedMs`, but specified as a point in time. If both are
+   * specified, the one that comes first is used.
+   */
+  deadline?: Date;
+  /**
+   * Maximum time for a single attempt in milliseconds.
+   *
+   * Once the time is out, the signal passed to the attempt is aborted, and the
+   * attempt fails with `TimeoutError`, which is handled as any other error.
+   *
+   * Defaults to `Infinity`.
+   */
+  attemptTimeoutMs?: number;
+  /**
+   * Maximum number of attempts running at the same time. Once reached, the
+   * next attempt is started only after one of the running attempts fails.
+   *
+   * Defaults to `Infinity`.
+   */
+  maxInFlight?: number;
+  /**
+   * Enables adaptive hedging: latency of successful attempts is recorded to
+   * the histogram, and the next attempt is started once `hedgePercentile` of
+   * the recorded latency passes since the start of the previous one. Attempts
+   * that are still running once another one succeeds are recorded with the
+   * time they have taken so far.
+   *
+   * Until the histogram has enough samples, delays are computed by `backoff`.
+   */
+  latencyHistogram?: LatencyHistogram;
+  /**
+   * Percentile of latency from `latencyHistogram` used as a delay between
+   * attempts, as a fraction from 0 to 1.
+   *
+   * Defaults to 0.95.
+   */
+  hedgePercentile?: number;
+  /**
+   * Retry budget shared with other calls. Also serves as a hedging budget.
+   *
+   * Each attempt after the first one withdraws from the budget. Once the
+   * budget is exhausted, no more attempts are made, and `proactiveRetry`
+   * rejects with the error of the last failed attempt once there are no
+   * running attempts.
+   */
+  retryBudget?: RetryBudget;
   /**
    * Called after each failed attempt.
    *
    * Rethrow error from this callback to prevent further retries.
    */
   onError?: (error: unknown, attempt: number) => void;
+  /**
+   * Called once an attempt succeeds.
+   */
+  onSuccess?: (attempt: number) => void;
+  /**
+   * Called once `proactiveRetry` gives up, with the error it rejects with and
+   * the number of the last failed attempt. Not called when `signal` is aborted.
+   */
+  onGiveUp?: (error: unknown, attempt: number) => void;
+  /**
+   * If `true`, `proactiveRetry` rejects with `RetryError` holding the errors
+   * and details of all failed attempts once all attempts fail, instead of the
+   * error of the last one. Once `maxElapsedMs` or `deadline` runs out, the
+   * `RetryError` becomes `cause` of the `TimeoutError`.
+   *
+   * Defaults to `false`.
+   */
+  aggregateErrors?: boolean;
+  /**
+   * Clock used to measure time and compute jitter.
+   *
+   * Defaults to `systemClock`.
+   */
+  clock?: Clock;
 };
 
 /**
@@ -39,26 +139,122 @@ export function proactiveRetry<T>(
   fn: (signal: AbortSignal, attempt: number) => Promise<T>,
   options: ProactiveRetryOptions = {},
 ): Promise<T> {
-  const {baseMs = 1000, onError, maxAttempts = Infinity} = options;
+  const {
+    baseMs = 1000,
+    maxDelayMs = Infinity,
+    onError,
+    maxAttempts = Infinity,
+    backoff = exponentialBackoff({baseMs, maxDelayMs}),
+    maxElapsedMs = Infinity,
+    deadline,
+    attemptTimeoutMs = Infinity,
+    onSuccess,
+    onGiveUp,
+    aggregateErrors = false,
+    retryBudget,
+    maxInFlight = Infinity,
+    latencyHistogram,
+    hedgePercentile = 0.95,
+    clock = systemClock,
+  } = options;
+
+  const random = () => clock.random();
+
+  const retryDeadline = getRetryDeadline(maxElapsedMs, deadline, clock);
 
   return execute(signal, (resolve, reject) => {
     const innerAbortController = new AbortController();
     let attemptsExhausted = false;
+    let lastError: unknown;
+    let lastFailedAttempt = 0;
+    let slotListener: (() => void) | undefined;
+
+    const runningAttempts = new Map</* attempt */ number, RetryAttempt>();
+    const failedAttempts: RetryAttempt[] = [];
+
+    function getFinalError(lastError: unknown): unknown {
+      if (!aggregateErrors || failedAttempts.length === 0) {
+        return lastError;
+      }
+
+      return new RetryError(
+        failedAttempts.slice().sort((a, b) => a.attempt - b.attempt),
+      );
+    }
+
+    function giveUp(err: unknown) {
+      if (innerAbortController.signal.aborted) {
+        return;
+      }
 
-    const promises = new Map</* attempt */ number, Promise<T>>();
+      innerAbortController.abort(err);
+      runningAttempts.clear();
+
+      if (onGiveUp && !isAbortError(err)) {
+        try {
+          onGiveUp(err, lastFailedAttempt);
+        } catch (callbackErr) {
+          err = callbackErr;
+        }
+      }
+
+      reject(err);
+    }
+
+    function handleFulfilled(value: T, attempt: number) {
+      if (innerAbortController.signal.aborted) {
+        return;
+      }
+
+      if (latencyHistogram != null) {
+        // attempts that lost to this one have taken at least that long, and
+        // leaving them out would make the percentile shrink under hedging
+        for (const runningAttempt of runningAttempts.values()) {
+          latencyHistogram.record(clock.now() - runningAttempt.startTime);
+        }
+      }
 
-    function handleFulfilled(value: T) {
       innerAbortController.abort();
-      promises.clear();
+      runningAttempts.clear();
+
+      if (onSuccess) {
+        try {
+          onSuccess(attempt);
+        } catch (err) {
+          reject(err);
+
+          return;
+        }
+      }
 
       resolve(value);
     }
 
-    function handleRejected(err: unknown, attempt: number) {
-      promises.delete(attempt);
+    function handleRejected(
+      err: unknown,
+      attempt: number,
+      attemptRecord: RetryAttempt,
+    ) {
+      runningAttempts.delete(attempt);
+
+      if (slotListener != null) {
+        slotListener();
+      }
+
+      if (!isAbortError(err)) {
+        lastError = err;
+        lastFailedAttempt = attempt;
+
+        attemptRecord.error = err;
+        attemptRecord.durationMs = clock.now() - attemptRecord.startTime;
+
+        if (aggregateErrors) {
+          failedAttempts.push(attemptRecord);
+        }
+      }
 
-      if (attemptsExhausted && promises.size === 0) {
-        reject(err);
+      if (attemptsExhausted && runningAttempts.size === 0) {
+        giveUp(getFinalError(err));
 
         return;
       }
@@ -67,44 +263,120 @@ export function proactiveRetry<T>(
         return;
       }
 
+      // the budget would not allow the next attempt, so don't wait for it
+      if (
+        runningAttempts.size === 0 &&
+        retryBudget != null &&
+        retryBudget.balance < 1
+      ) {
+        giveUp(getFinalError(err));
+
+        return;
+      }
+
       if (onError) {
         try {
           onError(err, attempt);
         } catch (err) {
-          innerAbortController.abort();
-          promises.clear();
-
-          reject(err);
+          giveUp(err);
         }
       }
     }
 
     async function makeAttempts(signal: AbortSignal) {
+      let previousDelayMs: number | undefined;
+      let previousAttempt: RetryAttempt | undefined;
+
       for (let attempt = 0; ; attempt++) {
-        const promise = fn(signal, attempt);
+        if (retryBudget != null) {
+          if (attempt === 0) {
+            retryBudget.deposit();
+          } else if (!retryBudget.tryWithdraw()) {
+            break;
+          }
+        }
+
+        if (previousAttempt != null) {
+          previousAttempt.delayMs = previousDelayMs;
+        }
+
+        const attemptRecord: RetryAttempt = {
+          attempt,
+          error: undefined,
+          startTime: clock.now(),
+          durationMs: 0,
+        };
+
+        previousAttempt = attemptRecord;
+
+        const promise = withAttemptTimeout(
+          signal,
+          attemptTimeoutMs,
+          clock,
+          signal => fn(signal, attempt),
+        );
 
-        promises.set(attempt, promise);
+        runningAttempts.set(attempt, attemptRecord);
 
-        promise.then(handleFulfilled, err => handleRejected(err, attempt));
+        promise.then(
+          value => handleFulfilled(value, attempt),
+          err => handleRejected(err, attempt, attemptRecord),
+        );
 
         if (attempt + 1 >= maxAttempts) {
           break;
         }
 
-        // https://aws.amazon.com/ru/blogs/architecture/exponential-backoff-and-jitter/
-        const backoff = Math.pow(2, attempt) * baseMs;
-        const delayMs = Math.round((backoff * (1 + Math.random())) / 2);
+        let delayMs =
+          latencyHistogram == null
+            ? undefined
+            : latencyHistogram.percentile(hedgePercentile);
 
-        await delay(signal, delayMs);
+        if (delayMs == null) {
+          delayMs = backoff(attempt, {previousDelayMs, random});
+        }
+
+        previousDelayMs = delayMs;
+
+        await delay(signal, delayMs, {clock});
+
+        while (runningAttempts.size >= maxInFlight) {
+          await waitForSlot(signal);
+        }
       }
 
       attemptsExhausted = true;
+
+      if (runningAttempts.size === 0) {
+        giveUp(getFinalError(lastError));
+      }
+    }
+
+    function waitForSlot(signal: AbortSignal) {
+      return execute<void>(signal, resolve => {
+        slotListener = () => {
+          slotListener = undefined;
+          resolve();
+        };
+
+        return () => {
+          slotListener = undefined;
+        };
+      });
     }
 
     makeAttempts(innerAbortController.signal).catch(catchAbortError);
 
+    if (retryDeadline != null) {
+      delay(innerAbortController.signal, new Date(retryDeadline.time), {
+        clock,
+      }).then(() => {
+        giveUp(retryDeadline.createError(getFinalError(lastError)));
+      }, catchAbortError);
+    }
+
     return () => {
-      innerAbortController.abort();
+      innerAbortController.abort(signal.reason);
     };
   });
 }
@@ -34,7 +34,7 @@ export function race<T extends PromiseLike<any>>(
 ): Promise<T extends PromiseLike<infer U> ? U : never> {
   return new Promise((resolve, reject) => {
     if (signal.aborted) {
-      reject(new AbortError());
+      reject(new AbortError(signal.reason));
       return;
     }
 
@@ -43,7 +43,7 @@ export function race<T extends PromiseLike<any>>(
     const promises = executor(innerAbortController.signal);
 
     const abortListener = () => {
-      innerAbortController.abort();
+      innerAbortController.abort(signal.reason);
     };
 
     signal.addEventListener('abort', abortListener);
@@ -53,7 +53,9 @@ export function race<T extends PromiseLike<any>>(
     function settled(
       result: PromiseSettledResult<T extends PromiseLike<infer U> ? U : never>,
     ) {
-      innerAbortController.abort();
+      innerAbortController.abort(
+        result.status === 'rejected' ? result.reason : undefined,
+      );
 
       settledCount += 1;
 
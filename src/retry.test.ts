@@ -0,0 +1,321 @@
+import {constantBackoff} from './backoff';
+import {execute} from './execute';
+import {retry} from './retry';
+import {RetryBudget} from './RetryBudget';
+import {RetryAttempt} from './RetryError';
+import {VirtualClock} from './VirtualClock';
+
+test('retry until success', async () => {
+  const signal = new AbortController().signal;
+
+  const onError = jest.fn();
+
+  await expect(
+    retry(
+      signal,
+      async (signal, attempt) => {
+        if (attempt < 2) {
+          throw new Error(`attempt ${attempt}`);
+        }
+
+        return 'test';
+      },
+      {backoff: constantBackoff(1), onError},
+    ),
+  ).resolves.toBe('test');
+
+  expect(onError.mock.calls).toEqual([
+    [new Error('attempt 0'), 0, 1],
+    [new Error('attempt 1'), 1, 1],
+  ]);
+});
+
+test('shouldRetry', async () => {
+  const signal = new AbortController().signal;
+
+  const fn = jest.fn(async (signal: AbortSignal, attempt: number) => {
+    throw new Error(attempt === 0 ? 'retryable' : 'fatal');
+  });
+
+  const shouldRetry = jest.fn(
+    (error: unknown) => (error as Error).message === 'retryable',
+  );
+
+  await expect(
+    retry(signal, fn, {backoff: constantBackoff(1), shouldRetry}),
+  ).rejects.toMatchObject({message: 'fatal'});
+
+  expect(fn).toHaveBeenCalledTimes(2);
+  expect(shouldRetry.mock.calls).toEqual([
+    [new Error('retryable'), 0],
+    [new Error('fatal'), 1],
+  ]);
+});
+
+test('retry delay from error', async () => {
+  const signal = new AbortController().signal;
+
+  const onError = jest.fn();
+
+  await retry(
+    signal,
+    async (signal, attempt) => {
+      if (attempt === 0) {
+        throw Object.assign(new Error('rate limited'), {retryDelayMs: 5});
+      }
+    },
+    {backoff: constantBackoff(1000), onError},
+  );
+
+  expect(onError).toHaveBeenCalledWith(expect.anything(), 0, 5);
+});
+
+test('retry delay from callback', async () => {
+  const signal = new AbortController().signal;
+
+  const onError = jest.fn();
+
+  await retry(
+    signal,
+    async (signal, attempt) => {
+      if (attempt < 2) {
+        throw new Error('test');
+      }
+    },
+    {
+      backoff: constantBackoff(1000),
+      getRetryDelay: (error, attempt) =>
+        attempt === 0 ? 5 : new Date(Date.now() + 5),
+      onError,
+    },
+  );
+
+  expect(onError.mock.calls[0][2]).toBe(5);
+  expect(onError.mock.calls[1][2]).toBeGreaterThanOrEqual(4);
+  expect(onError.mock.calls[1][2]).toBeLessThanOrEqual(5);
+});
+
+test('abort during delay', async () => {
+  const abortController = new AbortController();
+  const signal = abortController.signal;
+
+  const promise = retry(
+    signal,
+    async () => {
+      throw new Error('test');
+    },
+    {backoff: constantBackoff(1000)},
+  );
+
+  setTimeout(() => {
+    abortController.abort();
+  }, 10);
+
+  await expect(promise).rejects.toMatchObject({name: 'AbortError'});
+});
+
+test('attempt timeout', async () => {
+  const signal = new AbortController().signal;
+
+  const innerSignals: AbortSignal[] = [];
+
+  const onError = jest.fn();
+
+  await expect(
+    retry(
+      signal,
+      signal => {
+        innerSignals.push(signal);
+
+        return execute<void>(signal, () => () => {});
+      },
+      {
+        backoff: constantBackoff(1),
+        maxAttempts: 1,
+        attemptTimeoutMs: 10,
+        onError,
+      },
+    ),
+  ).rejects.toMatchObject({
+    name: 'TimeoutError',
+    message: 'Attempt timed out: attemptTimeoutMs of 10ms elapsed',
+  });
+
+  expect(innerSignals).toHaveLength(2);
+  expect(innerSignals[0].aborted).toBe(true);
+  expect(innerSignals[1].aborted).toBe(true);
+  expect(onError).toHaveBeenCalledTimes(1);
+  expect(onError.mock.calls[0][0]).toMatchObject({name: 'TimeoutError'});
+});
+
+test('attempt timeout: synchronous throw', async () => {
+  const clock = new VirtualClock();
+  const signal = new AbortController().signal;
+
+  await expect(
+    retry(
+      signal,
+      () => {
+        throw new Error('sync');
+      },
+      {maxAttempts: 0, attemptTimeoutMs: 10, clock},
+    ),
+  ).rejects.toThrow('sync');
+
+  expect(clock.pendingTimers).toBe(0);
+});
+
+test('maxElapsedMs', async () => {
+  const signal = new AbortController().signal;
+
+  let innerSignal: AbortSignal | undefined;
+
+  await expect(
+    retry(
+      signal,
+      async (signal, attempt) => {
+        if (attempt === 0) {
+          throw new Error('test');
+        }
+
+        innerSignal = signal;
+
+        return execute<void>(signal, () => () => {});
+      },
+      {backoff: constantBackoff(1), maxElapsedMs: 20},
+    ),
+  ).rejects.toMatchObject({
+    name: 'TimeoutError',
+    message: 'Retry time limit exceeded: maxElapsedMs of 20ms elapsed',
+    cause: new Error('test'),
+  });
+
+  expect(innerSignal?.aborted).toBe(true);
+});
+
+test('give up when next attempt is past deadline', async () => {
+  const signal = new AbortController().signal;
+
+  const deadline = new Date(Date.now() + 1000);
+
+  const fn = jest.fn(async () => {
+    throw new Error('test');
+  });
+
+  await expect(
+    retry(signal, fn, {backoff: constantBackoff(5000), deadline}),
+  ).rejects.toMatchObject({
+    name: 'TimeoutError',
+    message: `Retry time limit exceeded: deadline of ${deadline.toISOString()} passed`,
+    cause: new Error('test'),
+  });
+
+  expect(fn).toHaveBeenCalledTimes(1);
+});
+
+test('aggregateErrors', async () => {
+  const signal = new AbortController().signal;
+
+  const onGiveUp = jest.fn();
+
+  const promise = retry(
+    signal,
+    async (signal, attempt) => {
+      throw new Error(`attempt ${attempt}`);
+    },
+    {
+      backoff: constantBackoff(1),
+      maxAttempts: 2,
+      aggregateErrors: true,
+      onGiveUp,
+    },
+  );
+
+  await expect(promise).rejects.toMatchObject({
+    name: 'RetryError',
+    message: 'Retry attempts exhausted: 3 attempts failed',
+    attempts: [
+      {attempt: 0, error: new Error('attempt 0'), delayMs: 1},
+      {attempt: 1, error: new Error('attempt 1'), delayMs: 1},
+      {attempt: 2, error: new Error('attempt 2')},
+    ],
+  });
+
+  const error = await promise.catch(error => error);
+
+  expect(error.errors).toEqual(
+    error.attempts.map((attempt: RetryAttempt) => attempt.error),
+  );
+
+  expect(error.attempts[0].startTime).toEqual(expect.any(Number));
+  expect(error.attempts[0].durationMs).toEqual(expect.any(Number));
+
+  expect(onGiveUp).toHaveBeenCalledTimes(1);
+  expect(onGiveUp).toHaveBeenCalledWith(error, 2);
+});
+
+test('onSuccess', async () => {
+  const signal = new AbortController().signal;
+
+  const onSuccess = jest.fn();
+  const onGiveUp = jest.fn();
+
+  await retry(
+    signal,
+    async (signal, attempt) => {
+      if (attempt === 0) {
+        throw new Error('test');
+      }
+    },
+    {backoff: constantBackoff(1), onSuccess, onGiveUp},
+  );
+
+  expect(onSuccess.mock.calls).toEqual([[1]]);
+  expect(onGiveUp).not.toHaveBeenCalled();
+});
+
+test('no onGiveUp on abort', async () => {
+  const abortController = new AbortController();
+  const signal = abortController.signal;
+
+  const onGiveUp = jest.fn();
+
+  const promise = retry(
+    signal,
+    async () => {
+      throw new Error('test');
+    },
+    {backoff: constantBackoff(1000), onGiveUp},
+  );
+
+  abortController.abort();
+
+  await expect(promise).rejects.toMatchObject({name: 'AbortError'});
+
+  expect(onGiveUp).not.toHaveBeenCalled();
+});
+
+test('retry budget', async () => {
+  const signal = new AbortController().signal;
+
+  const retryBudget = new RetryBudget({
+    retryRatio: 0.5,
+    minRetriesPerSecond: 0,
+  });
+
+  const fn = jest.fn(async (signal: AbortSignal, attempt: number) => {
+    throw new Error(`attempt ${attempt}`);
+  });
+
+  await expect(
+    retry(signal, fn, {backoff: constantBackoff(1), retryBudget}),
+  ).rejects.toThrow('attempt 0');
+
+  expect(fn).toHaveBeenCalledTimes(1);
+
+  await expect(
+    retry(signal, fn, {backoff: constantBackoff(1), retryBudget}),
+  ).rejects.toThrow('attempt 1');
+
+  expect(fn).toHaveBeenCalledTimes(3);
+});
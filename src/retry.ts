@@ -1,5 +1,11 @@
 import {delay} from './delay';
-import {rethrowAbortError} from './AbortError';
+import {isAbortError, rethrowAbortError} from './AbortError';
+import {Backoff, exponentialBackoff} from './backoff';
+import {Clock, systemClock} from './Clock';
+import {race} from './race';
+import {RetryBudget} from './RetryBudget';
+import {RetryAttempt, RetryError} from './RetryError';
+import {getRetryDeadline, withAttemptTimeout} from './utils/retryLimits';
 
 export type RetryOptions = {
   /**
@@ -20,18 +26,106 @@ export type RetryOptions = {
    * attempted in 1000ms, 2000ms, 3000ms, 3000ms etc (not counting jitter).
    */
   maxDelayMs?: number;
+  /**
+   * Strategy for computing delays between attempts.
+   *
+   * Defaults to exponential backoff with equal jitter based on `baseMs` and
+   * `maxDelayMs`. If specified, `baseMs` and `maxDelayMs` are ignored.
+   */
+  backoff?: Backoff;
   /**
    * Maximum for the total number of attempts.
    *
    * Defaults to `Infinity`.
    */
   maxAttempts?: number;
+  /**
+   * Maximum total time in milliseconds for all attempts and delays between
+   * them.
+   *
+   * Once the time is out, the running attempt is aborted, and `retry` rejects
+   * with `TimeoutError` with the error of the last failed attempt as `cause`.
+   * If the next attempt would start after the time is out, `retry` rejects
+   * right away instead of waiting.
+   *
+   * Defaults to `Infinity`.
+   */
+  maxElapsedMs?: number;
+  /**
+   * Same as `maxElapsedMs`, but specified as a point in time. If both are
+   * specified, the one that comes first is used.
+   */
+  deadline?: Date;
+  /**
+   * Maximum time for a single attempt in milliseconds.
+   *
+   * Once the time is out, the signal passed to the attempt is aborted, and the
+   * attempt fails with `TimeoutError`, which is retried as any other error.
+   *
+   * Defaults to `Infinity`.
+   */
+  attemptTimeoutMs?: number;
+  /**
+   * Retry budget shared with other calls.
+   *
+   * Once the budget is exhausted, the error of the failed attempt is thrown
+   * without further retries.
+   */
+  retryBudget?: RetryBudget;
+  /**
+   * Called after each failed attempt to decide whether to retry.
+   *
+   * Return `false` to rethrow the error without further retries.
+   *
+   * Defaults to retrying every error other than `AbortError`.
+   */
+  shouldRetry?: (error: unknown, attempt: number) => boolean;
+  /**
+   * Called after each failed attempt to get a delay provided by the server,
+   * e.g. from HTTP `Retry-After` header or gRPC `RetryInfo`.
+   *
+   * Return delay in milliseconds or a `Date` to use it instead of the one
+   * computed by `backoff`, or `undefined` to keep the computed one. The
+   * returned delay is not limited by `maxDelayMs`.
+   *
+   * Defaults to taking `retryDelayMs` property of the error, if it is a number.
+   */
+  getRetryDelay?: (
+    error: unknown,
+    attempt: number,
+  ) => number | Date | undefined;
   /**
    * Called after each failed attempt before setting delay timer.
    *
    * Rethrow error from this callback to prevent further retries.
    */
   onError?: (error: unknown, attempt: number, delayMs: number) => void;
+  /**
+   * Called once an attempt succeeds.
+   */
+  onSuccess?: (attempt: number) => void;
+  /**
+   * Called once `retry` gives up, with the error it rejects with and the number
+   * of the last attempt. Not called when `signal` is aborted.
+   */
+  onGiveUp?: (error: unknown, attempt: number) => void;
+  /**
+   * If `true`, `retry` rejects with `RetryError` holding the errors and details
+   * of all failed attempts once it runs out of attempts, instead of the error
+   * of the last attempt. Once `maxElapsedMs` or `deadline` runs out, the
+   * `RetryError` becomes `cause` of the `TimeoutError`.
+   *
+   * Attempts made before calling `reset` are not included.
+   *
+   * Defaults to `false`.
+   */
+  aggregateErrors?: boolean;
+  /**
+   * Clock used to measure time and compute jitter.
+   *
+   * Defaults to `systemClock`.
+   */
+  clock?: Clock;
 };
 
 /**
@@ -40,6 +134,14 @@ export type RetryOptions = {
  * The function receives AbortSignal, attempt number starting with 0, and reset
  * function that sets attempt number to -1 so that the next attempt will be
  * made without delay.
+ *
+ * Example:
+ *
+ *     // give up after 2 minutes, abort attempts that take more than 5 seconds
+ *     const response = await retry(signal, signal => makeRequest(signal), {
+ *       maxElapsedMs: 120000,
+ *       attemptTimeoutMs: 5000,
+ *     });
  */
 export async function retry<T>(
   signal: AbortSignal,
@@ -51,43 +153,174 @@ export async function retry<T>(
     maxDelayMs = 30000,
     onError,
     maxAttempts = Infinity,
+    backoff = exponentialBackoff({baseMs, maxDelayMs}),
+    shouldRetry,
+    getRetryDelay = getErrorRetryDelay,
+    maxElapsedMs = Infinity,
+    deadline,
+    attemptTimeoutMs = Infinity,
+    onSuccess,
+    onGiveUp,
+    aggregateErrors = false,
+    retryBudget,
+    clock = systemClock,
   } = options;
 
+  const random = () => clock.random();
+
+  const retryDeadline = getRetryDeadline(maxElapsedMs, deadline, clock);
+
   let attempt = 0;
+  let previousDelayMs: number | undefined;
+  let lastError: unknown;
+
+  const failedAttempts: RetryAttempt[] = [];
 
   const reset = () => {
     attempt = -1;
+    failedAttempts.length = 0;
   };
 
-  while (true) {
-    try {
-      return await fn(signal, attempt, reset);
-    } catch (error) {
-      rethrowAbortError(error);
+  function getFinalError(lastError: unknown): unknown {
+    if (!aggregateErrors || failedAttempts.length === 0) {
+      return lastError;
+    }
+
+    return new RetryError(failedAttempts.slice());
+  }
+
+  async function makeAttempts(signal: AbortSignal): Promise<T> {
+    while (true) {
+      const startTime = clock.now();
 
-      if (attempt >= maxAttempts) {
-        throw error;
+      if (retryBudget != null && attempt <= 0) {
+        retryBudget.deposit();
       }
 
-      let delayMs: number;
+      let value: T;
 
-      if (attempt === -1) {
-        delayMs = 0;
-      } else {
-        // https://aws.amazon.com/ru/blogs/architecture/exponential-backoff-and-jitter/
-        const backoff = Math.min(maxDelayMs, Math.pow(2, attempt) * baseMs);
-        delayMs = Math.round((backoff * (1 + Math.random())) / 2);
-      }
+      try {
+        value = await withAttemptTimeout(
+          signal,
+          attemptTimeoutMs,
+          clock,
+          signal => fn(signal, attempt, reset),
+        );
+      } catch (error) {
+        rethrowAbortError(error);
+
+        lastError = error;
+
+        const failedAttempt: RetryAttempt = {
+          attempt,
+          error,
+          startTime,
+          durationMs: clock.now() - startTime,
+        };
+
+        if (aggregateErrors) {
+          failedAttempts.push(failedAttempt);
+        }
+
+        if (attempt >= maxAttempts) {
+          throw getFinalError(error);
+        }
+
+        if (shouldRetry != null && !shouldRetry(error, attempt)) {
+          throw error;
+        }
+
+        // attempt after reset is counted as a first attempt
+        if (
+          retryBudget != null &&
+          attempt !== -1 &&
+          !retryBudget.tryWithdraw()
+        ) {
+          throw error;
+        }
+
+        let delayMs: number;
+
+        if (attempt === -1) {
+          delayMs = 0;
+          previousDelayMs = undefined;
+        } else {
+          delayMs = backoff(attempt, {previousDelayMs, random});
+        }
+
+        const retryDelay = getRetryDelay(error, attempt);
+
+        if (retryDelay != null) {
+          delayMs =
+            typeof retryDelay === 'number'
+              ? retryDelay
+              : Math.max(0, retryDelay.getTime() - clock.now());
+        }
 
-      if (onError) {
-        onError(error, attempt, delayMs);
+        if (attempt !== -1) {
+          previousDelayMs = delayMs;
+        }
+
+        if (
+          retryDeadline != null &&
+          clock.now() + delayMs >= retryDeadline.time
+        ) {
+          throw retryDeadline.createError(getFinalError(error));
+        }
+
+        failedAttempt.delayMs = delayMs;
+
+        if (onError) {
+          onError(error, attempt, delayMs);
+        }
+
+        if (delayMs !== 0) {
+          await delay(signal, delayMs, {clock});
+        }
+
+        attempt += 1;
+
+        continue;
       }
 
-      if (delayMs !== 0) {
-        await delay(signal, delayMs);
+      if (onSuccess) {
+        onSuccess(attempt);
       }
 
-      attempt += 1;
+      return value;
+    }
+  }
+
+  try {
+    if (retryDeadline == null) {
+      return await makeAttempts(signal);
     }
+
+    return await race(signal, signal => [
+      delay(signal, new Date(retryDeadline.time), {
+        clock,
+      }).then((): never => {
+        throw retryDeadline.createError(getFinalError(lastError));
+      }),
+      makeAttempts(signal),
+    ]);
+  } catch (error) {
+    if (onGiveUp && !isAbortError(error)) {
+      onGiveUp(error, attempt);
+    }
+
+    throw error;
   }
 }
+
+function getErrorRetryDelay(error: unknown): number | undefined {
+  if (typeof error === 'object' && error !== null) {
+    const {retryDelayMs} = error as {retryDelayMs?: unknown};
+
+    if (typeof retryDelayMs === 'number') {
+      return retryDelayMs;
+    }
+  }
+
+  return undefined;
+}
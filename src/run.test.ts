@@ -0,0 +1,120 @@
+import {delay} from './delay';
+import {forever} from './forever';
+import {run} from './run';
+import {testAbortReason} from './utils/abortReason';
+
+test('stop', async () => {
+  const actions: string[] = [];
+
+  const stop = run(async signal => {
+    try {
+      await forever(signal);
+    } finally {
+      await delay(new AbortController().signal, 0);
+      actions.push('cleanup');
+    }
+  });
+
+  expect(stop.status).toBe('running');
+
+  const stopPromise = stop();
+
+  expect(stop.status).toBe('stopping');
+
+  await stopPromise;
+
+  expect(actions).toEqual(['cleanup']);
+  await expect(stop.done).resolves.toEqual({status: 'stopped'});
+  expect(stop.status).toBe('stopped');
+});
+
+testAbortReason('stop reason', async () => {
+  const reasons: unknown[] = [];
+
+  const handle = run(async signal => {
+    try {
+      await forever(signal);
+    } catch (err: any) {
+      reasons.push(err.reason);
+      throw err;
+    }
+  });
+
+  await handle.stop('shutdown');
+
+  expect(reasons).toEqual(['shutdown']);
+});
+
+test('completed', async () => {
+  const handle = run(async () => {});
+
+  await expect(handle.done).resolves.toEqual({status: 'completed'});
+  expect(handle.status).toBe('completed');
+});
+
+test('onError', async () => {
+  const onError = jest.fn();
+
+  const handle = run(
+    async signal => {
+      await delay(signal, 0);
+      throw new Error('the-error');
+    },
+    {onError},
+  );
+
+  await expect(handle.done).resolves.toEqual({
+    status: 'failed',
+    error: new Error('the-error'),
+  });
+
+  expect(handle.status).toBe('failed');
+  expect(onError).toHaveBeenCalledWith(new Error('the-error'));
+
+  await expect(handle.stop()).rejects.toThrow('the-error');
+});
+
+test('onError throws', async () => {
+  // the error of `onError` is raised as unhandled rejection
+  const reject = jest
+    .spyOn(Promise, 'reject')
+    .mockImplementation(() => new Promise(() => {}));
+
+  try {
+    const handle = run(
+      async () => {
+        throw new Error('the-error');
+      },
+      {
+        onError() {
+          throw new Error('onError failed');
+        },
+      },
+    );
+
+    await expect(handle.done).resolves.toEqual({
+      status: 'failed',
+      error: new Error('the-error'),
+    });
+
+    expect(reject).toHaveBeenCalledWith(new Error('onError failed'));
+  } finally {
+    reject.mockRestore();
+  }
+});
+
+test('error on stop', async () => {
+  const handle = run(async signal => {
+    try {
+      await forever(signal);
+    } catch {
+      throw new Error('cleanup failed');
+    }
+  });
+
+  await expect(handle.stop()).rejects.toThrow('cleanup failed');
+  await expect(handle.done).resolves.toEqual({
+    status: 'failed',
+    error: new Error('cleanup failed'),
+  });
+});
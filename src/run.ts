@@ -1,13 +1,64 @@
 import {catchAbortError} from './AbortError';
 
+export type RunOptions = {
+  /**
+   * Called once the function throws an error other than `AbortError`, e.g. to
+   * restart it or exit the process.
+   *
+   * If not specified, such errors result in unhandled promise rejection,
+   * unless they are thrown after `stop` is called. Errors thrown from
+   * `onError` itself also result in unhandled promise rejection.
+   */
+  onError?: (error: unknown) => void;
+};
+
+/**
+ * - `'running'`: the function is running.
+ * - `'stopping'`: `stop` was called, and the function has not finished yet.
+ * - `'completed'`: the function returned before `stop` was called.
+ * - `'stopped'`: the function finished after `stop` was called.
+ * - `'failed'`: the function threw an error other than `AbortError`.
+ */
+export type RunStatus =
+  | 'running'
+  | 'stopping'
+  | 'completed'
+  | 'stopped'
+  | 'failed';
+
+export type RunOutcome =
+  | {status: 'completed' | 'stopped'}
+  | {status: 'failed'; error: unknown};
+
+/**
+ * Handle returned from `run`. Calling it is the same as calling `stop`.
+ */
+export type RunHandle = {
+  (reason?: unknown): Promise<void>;
+  /**
+   * Aborts the signal with optional `reason` and returns a promise that
+   * fulfills once the function finishes, or rejects with the error thrown from
+   * it other than `AbortError`.
+   */
+  stop(reason?: unknown): Promise<void>;
+  /**
+   * Promise that fulfills with the outcome once the function finishes. Never
+   * rejects.
+   */
+  readonly done: Promise<RunOutcome>;
+  readonly status: RunStatus;
+};
+
 /**
  * Invokes an abortable function with implicitly created `AbortSignal`.
  *
- * Returns a function that aborts that signal and waits until passed function
- * finishes.
+ * Returns a handle that aborts that signal and waits until passed function
+ * finishes when called. The handle also allows to check the status of the
+ * function and wait for it to finish without aborting it.
  *
- * Any error other than `AbortError` thrown from passed function will result in
- * unhandled promise rejection.
+ * Any error other than `AbortError` thrown from passed function before the
+ * handle is called is passed to `onError`, or results in unhandled promise
+ * rejection if `onError` is not specified.
  *
  * Example:
  *
@@ -24,16 +75,73 @@ import {catchAbortError} from './AbortError';
  *
  *    // abort and wait until cleanup is done
  *    await stop();
+ *
+ * Example:
+ *
+ *    const worker = run(signal => consumeQueue(signal), {
+ *      onError(error) {
+ *        console.error('Worker crashed', error);
+ *        process.exit(1);
+ *      },
+ *    });
+ *
+ *    // later
+ *    if (worker.status === 'running') {
+ *      await worker.stop('shutdown');
+ *    }
  */
 export function run(
   fn: (signal: AbortSignal) => Promise<void>,
-): () => Promise<void> {
+  options: RunOptions = {},
+): RunHandle {
+  const {onError} = options;
+
   const abortController = new AbortController();
 
+  let status: RunStatus = 'running';
+
   const promise = fn(abortController.signal).catch(catchAbortError);
 
-  return () => {
-    abortController.abort();
+  const done = promise.then(
+    (): RunOutcome => {
+      status = status === 'stopping' ? 'stopped' : 'completed';
+
+      return {status};
+    },
+    (error): RunOutcome => {
+      const stopping = status === 'stopping';
+
+      status = 'failed';
+
+      if (onError != null) {
+        try {
+          onError(error);
+        } catch (onErrorError) {
+          // `done` must not reject
+          Promise.reject(onErrorError);
+        }
+      } else if (!stopping) {
+        // keep the crash visible as unhandled rejection
+        Promise.reject(error);
+      }
+
+      return {status, error};
+    },
+  );
+
+  const stop = (reason?: unknown) => {
+    if (status === 'running') {
+      status = 'stopping';
+    }
+
+    abortController.abort(reason);
+
     return promise;
   };
+
+  return Object.defineProperties(stop, {
+    stop: {value: stop},
+    done: {value: done},
+    status: {get: () => status},
+  }) as RunHandle;
 }
@@ -0,0 +1,116 @@
+import {EventEmitter} from 'events';
+import {delay} from './delay';
+import {forever} from './forever';
+import {runMain} from './runMain';
+import {supportsAbortReason} from './utils/abortReason';
+import {VirtualClock} from './VirtualClock';
+
+function createProcess() {
+  return Object.assign(new EventEmitter(), {exit: jest.fn()});
+}
+
+test('graceful shutdown', async () => {
+  const proc = createProcess();
+  const log = jest.fn();
+  const reasons: unknown[] = [];
+
+  const handle = runMain(
+    async (signal, {defer}) => {
+      defer(async () => {
+        await delay(new AbortController().signal, 0);
+      });
+
+      try {
+        await forever(signal);
+      } catch (err: any) {
+        reasons.push(err.reason);
+        throw err;
+      }
+    },
+    {process: proc, log},
+  );
+
+  proc.emit('SIGTERM');
+
+  await handle.done;
+
+  if (supportsAbortReason) {
+    expect(reasons).toEqual(['SIGTERM']);
+  }
+  expect(log.mock.calls).toEqual([['Received SIGTERM, shutting down']]);
+  expect(proc.exit).toHaveBeenCalledWith(0);
+  expect(proc.listenerCount('SIGTERM')).toBe(0);
+  expect(proc.listenerCount('SIGINT')).toBe(0);
+});
+
+test('crash', async () => {
+  const proc = createProcess();
+  const log = jest.fn();
+
+  const handle = runMain(
+    async () => {
+      throw new Error('the-error');
+    },
+    {process: proc, log},
+  );
+
+  await handle.done;
+
+  expect(log).toHaveBeenCalledWith(
+    'Main function failed',
+    new Error('the-error'),
+  );
+  expect(proc.exit).toHaveBeenCalledWith(1);
+});
+
+test('grace timeout', async () => {
+  const clock = new VirtualClock();
+  const proc = createProcess();
+  const log = jest.fn();
+
+  runMain(
+    async (signal, {defer}) => {
+      defer(() => new Promise(() => {}));
+
+      await forever(signal);
+    },
+    {process: proc, log, clock, gracePeriodMs: 1000},
+  );
+
+  proc.emit('SIGINT');
+
+  await clock.advance(999);
+  expect(proc.exit).not.toHaveBeenCalled();
+
+  await clock.advance(1);
+  expect(proc.exit).toHaveBeenCalledWith(1);
+  expect(log).toHaveBeenLastCalledWith(
+    expect.stringMatching(
+      /^Shutdown timed out after 1000ms, pending tasks:\nspawn #\d+ "main" \(cleaning-up, \d+ms, 1 pending deferred\)$/,
+    ),
+  );
+});
+
+test('second signal', async () => {
+  const proc = createProcess();
+  const log = jest.fn();
+
+  runMain(
+    async (signal, {defer}) => {
+      defer(() => new Promise(() => {}));
+
+      await forever(signal);
+    },
+    {process: proc, log},
+  );
+
+  proc.emit('SIGINT');
+  await delay(new AbortController().signal, 0);
+  expect(proc.exit).not.toHaveBeenCalled();
+
+  proc.emit('SIGINT');
+  expect(proc.exit).toHaveBeenCalledWith(1);
+  expect(log).toHaveBeenLastCalledWith(
+    expect.stringMatching(/^Received SIGINT again, exiting, pending tasks:\n/),
+  );
+});
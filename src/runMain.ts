@@ -0,0 +1,164 @@
+import {systemClock} from './Clock';
+import {run, RunHandle} from './run';
+import {spawn, SpawnEffects, SpawnOptions} from './spawn';
+import {formatTaskTree, getTaskTree} from './taskTree';
+
+/**
+ * The subset of NodeJS `process` used by `runMain`.
+ */
+export type ProcessLike = {
+  on(event: string, listener: () => void): unknown;
+  removeListener(event: string, listener: () => void): unknown;
+  exit(code: number): void;
+};
+
+export type RunMainOptions = SpawnOptions & {
+  /**
+   * Process signals that start a graceful shutdown. Receiving any of them
+   * again during the shutdown exits the process right away.
+   *
+   * Defaults to `['SIGINT', 'SIGTERM']`.
+   */
+  signals?: string[];
+  /**
+   * Time in milliseconds given to the function and its deferred functions to
+   * finish after a signal is received. Once the time is out, pending tasks are
+   * logged and the process exits.
+   *
+   * Defaults to 30 seconds.
+   */
+  gracePeriodMs?: number;
+  /**
+   * Called with messages about the shutdown and the failure of the function.
+   *
+   * Defaults to `console.error`.
+   */
+  log?: (message: string, error?: unknown) => void;
+  /**
+   * Object used instead of global `process`, e.g. in tests.
+   *
+   * Defaults to global `process`.
+   */
+  process?: ProcessLike;
+};
+
+/**
+ * Runs the main function of a NodeJS program with `spawn` effects, and exits
+ * the process once it finishes.
+ *
+ * Once the process receives one of `signals`, the signal passed to the
+ * function is aborted with the name of the received signal as `reason`. If the
+ * function then finishes or throws `AbortError`, the process exits with code
+ * 0. If it throws any other error, the error is logged, and the process exits
+ * with code 1.
+ *
+ * If the shutdown takes longer than `gracePeriodMs`, or a signal is received
+ * again, tasks that are still running, including pending deferred functions,
+ * are logged, and the process exits with code 1 right away.
+ *
+ * Returns the handle of `run`.
+ *
+ * Example:
+ *
+ *     runMain(async (signal, {defer}) => {
+ *       const db = await connectToDb();
+ *
+ *       defer(async () => {
+ *         await db.close();
+ *       });
+ *
+ *       const server = await startServer(db);
+ *
+ *       defer(async () => {
+ *         await server.close();
+ *       });
+ *
+ *       await forever(signal);
+ *     });
+ */
+export function runMain(
+  fn: (signal: AbortSignal, effects: SpawnEffects) => Promise<void>,
+  options: RunMainOptions = {},
+): RunHandle {
+  const {
+    signals = ['SIGINT', 'SIGTERM'],
+    gracePeriodMs = 30000,
+    log = (message: string, error?: unknown) => {
+      if (error === undefined) {
+        console.error(message);
+      } else {
+        console.error(message, error);
+      }
+    },
+    process: proc = process,
+    clock = systemClock,
+    name = 'main',
+    ...spawnOptions
+  } = options;
+
+  const listeners: Record<string, () => void> = {};
+  let graceTimer: unknown;
+  let exited = false;
+
+  const exit = (code: number) => {
+    if (exited) {
+      return;
+    }
+
+    exited = true;
+
+    for (const processSignal of signals) {
+      proc.removeListener(processSignal, listeners[processSignal]);
+    }
+
+    if (graceTimer !== undefined) {
+      clock.clearTimeout(graceTimer);
+    }
+
+    proc.exit(code);
+  };
+
+  const forceExit = (message: string) => {
+    const tree = formatTaskTree(getTaskTree());
+
+    log(tree === '' ? message : `${message}, pending tasks:\n${tree}`);
+
+    exit(1);
+  };
+
+  const handle = run(
+    signal => spawn(signal, fn, {...spawnOptions, name, clock}),
+    {
+      onError(error) {
+        log('Main function failed', error);
+      },
+    },
+  );
+
+  for (const processSignal of signals) {
+    listeners[processSignal] = () => {
+      if (handle.status !== 'running') {
+        forceExit(`Received ${processSignal} again, exiting`);
+        return;
+      }
+
+      log(`Received ${processSignal}, shutting down`);
+
+      graceTimer = clock.setTimeout(() => {
+        forceExit(`Shutdown timed out after ${gracePeriodMs}ms`);
+      }, gracePeriodMs);
+
+      handle.stop(processSignal).catch(() => {
+        // reported to onError
+      });
+    };
+
+    proc.on(processSignal, listeners[processSignal]);
+  }
+
+  handle.done.then(outcome => {
+    exit(outcome.status === 'failed' ? 1 : 0);
+  });
+
+  return handle;
+}
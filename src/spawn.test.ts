@@ -1,6 +1,9 @@
 import {spawn} from './spawn';
 import {forever} from './forever';
 import {delay} from './delay';
+import {VirtualClock} from './VirtualClock';
+import {isSpawnError} from './SpawnError';
+import {supportsAbortReason, testAbortReason} from './utils/abortReason';
 
 test('fork manual abort', async () => {
   const abortController = new AbortController();
@@ -177,6 +180,348 @@ test('async defer', async () => {
   expect(deferredFn).toHaveBeenCalledTimes(1);
 });
 
+test('defer shutdown timeout', async () => {
+  const clock = new VirtualClock();
+  const actions: string[] = [];
+  let abortReason: unknown;
+
+  const promise = spawn(
+    new AbortController().signal,
+    async (signal, {defer}) => {
+      defer(() => {
+        actions.push('first defer');
+      });
+
+      defer(
+        signal =>
+          new Promise<void>(resolve => {
+            signal.addEventListener('abort', () => {
+              actions.push('second defer abort');
+              abortReason = signal.reason;
+              resolve();
+            });
+          }),
+        {shutdownTimeoutMs: 1000},
+      );
+
+      defer(
+        signal =>
+          new Promise<void>(resolve => {
+            actions.push('third defer');
+            signal.addEventListener('abort', () => {
+              actions.push('third defer abort');
+            });
+            clock.setTimeout(resolve, 500);
+          }),
+      );
+    },
+    {shutdownTimeoutMs: 600, clock},
+  );
+  promise.catch(() => {});
+
+  await clock.advance(500);
+  await clock.advance(999);
+
+  expect(actions).toEqual(['third defer']);
+
+  await clock.advance(1);
+
+  await expect(promise).rejects.toMatchObject({
+    name: 'TimeoutError',
+    message: 'Deferred function timed out: shutdownTimeoutMs of 1000ms elapsed',
+  });
+
+  expect(actions).toEqual(['third defer', 'second defer abort', 'first defer']);
+
+  if (supportsAbortReason) {
+    expect(abortReason).toMatchObject({
+      name: 'TimeoutError',
+      message:
+        'Deferred function timed out: shutdownTimeoutMs of 1000ms elapsed',
+    });
+  }
+});
+
+test('aggregate errors', async () => {
+  const error = await spawn(
+    new AbortController().signal,
+    async (signal, {fork, defer}) => {
+      defer(() => {
+        throw new Error('first defer failed');
+      });
+
+      defer(() => {
+        throw new Error('second defer failed');
+      });
+
+      fork(async signal => {
+        await delay(signal, 0);
+        throw new Error('first fork failed');
+      });
+
+      fork(async signal => {
+        try {
+          await forever(signal);
+        } catch {
+          throw new Error('second fork failed');
+        }
+      });
+
+      await forever(signal);
+    },
+    {aggregateErrors: true},
+  ).catch(error => error);
+
+  expect(isSpawnError(error)).toBe(true);
+  expect(error.message).toBe('Spawn failed with 4 errors');
+  expect(error.errors).toEqual([
+    new Error('first fork failed'),
+    new Error('second fork failed'),
+    new Error('second defer failed'),
+    new Error('first defer failed'),
+  ]);
+  expect(error.primary).toEqual(new Error('first fork failed'));
+  expect(error.suppressed).toHaveLength(3);
+});
+
+test('aggregate errors without failures', async () => {
+  await expect(
+    spawn(new AbortController().signal, async () => 'the-result', {
+      aggregateErrors: true,
+    }),
+  ).resolves.toBe('the-result');
+
+  const abortController = new AbortController();
+
+  const promise = spawn(
+    abortController.signal,
+    async (signal, {fork}) => {
+      fork(signal => forever(signal));
+
+      await forever(signal);
+    },
+    {aggregateErrors: true},
+  );
+
+  abortController.abort();
+
+  await expect(promise).rejects.toMatchObject({name: 'AbortError'});
+});
+
+test('non-critical fork', async () => {
+  const onError = jest.fn();
+
+  const result = await spawn(
+    new AbortController().signal,
+    async (signal, {fork}) => {
+      const task = fork(
+        async () => {
+          throw new Error('the-error');
+        },
+        {critical: false, onError},
+      );
+
+      expect(task.status).toBe('running');
+
+      await delay(signal, 0);
+
+      expect(task.status).toBe('rejected');
+      expect(task.error).toEqual(new Error('the-error'));
+
+      return 'the-result';
+    },
+  );
+
+  expect(result).toBe('the-result');
+  expect(onError).toHaveBeenCalledWith(new Error('the-error'));
+});
+
+test('non-critical fork onError throws', async () => {
+  // the error of `onError` is raised as unhandled rejection
+  const reject = jest
+    .spyOn(Promise, 'reject')
+    .mockImplementation(() => new Promise(() => {}));
+
+  try {
+    const result = await spawn(
+      new AbortController().signal,
+      async (signal, {fork}) => {
+        fork(
+          async () => {
+            throw new Error('the-error');
+          },
+          {
+            critical: false,
+            onError() {
+              throw new Error('onError failed');
+            },
+          },
+        );
+
+        await delay(signal, 0);
+
+        return 'the-result';
+      },
+    );
+
+    expect(result).toBe('the-result');
+    expect(reject).toHaveBeenCalledWith(new Error('onError failed'));
+  } finally {
+    reject.mockRestore();
+  }
+});
+
+test('detached fork', async () => {
+  const actions: string[] = [];
+  let finishFork!: () => void;
+
+  const task = await spawn(
+    new AbortController().signal,
+    async (signal, {fork}) => {
+      return fork(
+        async signal => {
+          await new Promise<void>(resolve => {
+            finishFork = resolve;
+          });
+
+          actions.push(`fork finish, aborted: ${signal.aborted}`);
+
+          return 'the-value';
+        },
+        {detached: true},
+      );
+    },
+  );
+
+  actions.push('spawn finish');
+  expect(task.status).toBe('running');
+
+  finishFork();
+  await expect(task.join()).resolves.toBe('the-value');
+
+  expect(actions).toEqual(['spawn finish', 'fork finish, aborted: true']);
+  expect(task.status).toBe('fulfilled');
+  expect(task.result).toBe('the-value');
+});
+
+test('abortable join', async () => {
+  const actions: string[] = [];
+
+  await spawn(new AbortController().signal, async (signal, {fork}) => {
+    const task = fork(async signal => {
+      await delay(signal, 10);
+      actions.push('fork finish');
+    });
+
+    const joinAbortController = new AbortController();
+    const joinPromise = task.join(joinAbortController.signal);
+
+    joinAbortController.abort();
+
+    await expect(joinPromise).rejects.toMatchObject({name: 'AbortError'});
+    actions.push('join aborted');
+
+    await task.join();
+  });
+
+  expect(actions).toEqual(['join aborted', 'fork finish']);
+});
+
+test('start', async () => {
+  const actions: string[] = [];
+
+  await spawn(new AbortController().signal, async (signal, {start}) => {
+    const port = await start<number>(async (signal, started) => {
+      actions.push('listen');
+      await delay(signal, 0);
+      started(8080);
+
+      try {
+        await forever(signal);
+      } catch (err: any) {
+        actions.push(`server abort: ${err.message}`);
+        throw err;
+      }
+    });
+
+    actions.push(`listening on ${port}`);
+  });
+
+  expect(actions).toEqual([
+    'listen',
+    'listening on 8080',
+    'server abort: The operation has been aborted',
+  ]);
+});
+
+test('start failure', async () => {
+  const onError = jest.fn();
+
+  const result = await spawn(
+    new AbortController().signal,
+    async (signal, {start}) => {
+      await expect(
+        start(
+          async () => {
+            throw new Error('the-error');
+          },
+          {onError},
+        ),
+      ).rejects.toThrow('the-error');
+
+      await expect(start(async () => {}, {onError})).rejects.toThrow(
+        'Started function returned without calling `started`',
+      );
+
+      return 'the-result';
+    },
+  );
+
+  expect(result).toBe('the-result');
+  expect(onError.mock.calls).toEqual([
+    [new Error('the-error')],
+    [new Error('Started function returned without calling `started`')],
+  ]);
+});
+
+test('start failure with restart', async () => {
+  const clock = new VirtualClock();
+  const startFn = jest.fn(async () => {
+    throw new Error('the-error');
+  });
+
+  const promise = spawn(
+    new AbortController().signal,
+    async (signal, {start}) => {
+      await expect(
+        start(startFn, {restart: {backoff: () => 100}}),
+      ).rejects.toThrow('the-error');
+
+      await delay(signal, 1000, {clock});
+
+      return 'the-result';
+    },
+    {clock},
+  );
+
+  await clock.runAll();
+
+  await expect(promise).resolves.toBe('the-result');
+  expect(startFn).toHaveBeenCalledTimes(1);
+});
+
+test('start abort', async () => {
+  const abortController = new AbortController();
+
+  const promise = spawn(abortController.signal, async (signal, {start}) => {
+    await start(signal => forever(signal));
+  });
+
+  abortController.abort();
+
+  await expect(promise).rejects.toMatchObject({name: 'AbortError'});
+});
+
 test('abort before spawn', async () => {
   const abortController = new AbortController();
   const signal = abortController.signal;
@@ -195,3 +540,32 @@ test('abort before spawn', async () => {
   expect(signal.addEventListener).not.toHaveBeenCalled();
   expect(signal.removeEventListener).not.toHaveBeenCalled();
 });
+
+testAbortReason('fork abort reason', async () => {
+  const abortController = new AbortController();
+  const signal = abortController.signal;
+
+  const reasons: unknown[] = [];
+
+  const promise = spawn(signal, async (signal, {fork}) => {
+    fork(async signal => {
+      try {
+        await forever(signal);
+      } catch (err: any) {
+        reasons.push(err.reason);
+        throw err;
+      }
+    });
+
+    await forever(signal);
+  });
+
+  abortController.abort('shutdown');
+
+  await expect(promise).rejects.toMatchObject({
+    name: 'AbortError',
+    reason: 'shutdown',
+  });
+
+  expect(reasons).toEqual(['shutdown']);
+});
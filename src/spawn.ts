@@ -1,4 +1,45 @@
+import {abortable} from './abortable';
 import {AbortError, catchAbortError, isAbortError} from './AbortError';
+import {Clock, systemClock} from './Clock';
+import {SpawnError} from './SpawnError';
+import {TimeoutError} from './TimeoutError';
+import {RestartOptions, runSupervisor} from './utils/supervisor';
+import {
+  bindTaskSignal,
+  registerTask,
+  unregisterTask,
+} from './utils/taskRegistry';
+
+export type SpawnOptions = {
+  /**
+   * Name of the spawn shown in `getTaskTree`.
+   */
+  name?: string;
+  /**
+   * Arbitrary data shown in `getTaskTree`, e.g. a request id.
+   */
+  metadata?: Record<string, unknown>;
+  /**
+   * Default time limit for each deferred function in milliseconds.
+   *
+   * Defaults to `Infinity`.
+   */
+  shutdownTimeoutMs?: number;
+  /**
+   * If `true`, `spawn` rejects with `SpawnError` holding every error other than
+   * `AbortError` thrown from the spawned function, forks and deferred
+   * functions in order, instead of a single error.
+   *
+   * Defaults to `false`.
+   */
+  aggregateErrors?: boolean;
+  /**
+   * Clock used to measure time.
+   *
+   * Defaults to `systemClock`.
+   */
+  clock?: Clock;
+};
 
 export type SpawnEffects = {
   /**
@@ -8,29 +49,137 @@ export type SpawnEffects = {
    *
    * Promise returned from `spawn` fulfills or rejects only after all deferred
    * functions finish.
+   *
+   * Once a deferred function runs longer than `shutdownTimeoutMs`, the signal
+   * passed to it is aborted, and the next deferred function starts without
+   * waiting for it. Promise returned from `spawn` then rejects with
+   * `TimeoutError`.
+   *
+   * If a deferred function throws, promise returned from `spawn` rejects with
+   * that error, unless `aggregateErrors` option is set.
    */
-  defer(fn: () => void | Promise<void>): void;
+  defer(
+    fn: (signal: AbortSignal) => void | Promise<void>,
+    options?: DeferOptions,
+  ): void;
 
   /**
    * Executes an abortable function in background.
    *
    * If a forked function throws an exception, spawned function and other forks
    * are aborted and promise returned from `spawn` rejects with that exception.
+   * If several forks throw, the last exception wins, unless `aggregateErrors`
+   * option is set. Forks with `critical: false` option do not fail the spawn.
+   *
+   * When spawned function finishes, all forks are aborted, and the spawn waits
+   * for them to finish, except for forks with `detached: true` option.
+   */
+  fork<T>(
+    fn: (signal: AbortSignal) => Promise<T>,
+    options?: ForkOptions,
+  ): ForkTask<T>;
+
+  /**
+   * Executes an abortable function in background, like `fork`, and waits until
+   * it reports readiness by calling `started`.
+   *
+   * Returns a promise that fulfills with the value passed to `started`. If the
+   * function throws or returns before calling `started`, the promise rejects
+   * with that error, and the spawn does not fail. The fork is still reported
+   * as rejected, and the error is passed to `onError`, but the function is not
+   * restarted. After `started` is called, the function behaves as a regular
+   * fork.
+   */
+  start<T>(
+    fn: (signal: AbortSignal, started: (value: T) => void) => Promise<unknown>,
+    options?: ForkOptions,
+  ): Promise<T>;
+};
+
+export type DeferOptions = {
+  /**
+   * Time limit for the deferred function in milliseconds.
+   *
+   * Defaults to `shutdownTimeoutMs` option of `spawn`.
+   */
+  shutdownTimeoutMs?: number;
+};
+
+export type ForkOptions = {
+  /**
+   * Name of the fork shown in `getTaskTree`.
+   */
+  name?: string;
+  /**
+   * Arbitrary data shown in `getTaskTree`.
+   */
+  metadata?: Record<string, unknown>;
+  /**
+   * If specified, the forked function is restarted once it throws, instead of
+   * failing the spawn. The spawn fails only once the function throws more than
+   * `maxRestarts` times within `periodMs`. `clock` defaults to the one of the
+   * spawn.
+   *
+   * See `supervise`.
+   */
+  restart?: RestartOptions;
+  /**
+   * If `false`, an error thrown from the forked function does not fail the
+   * spawn. It is only passed to `onError` and can be observed via `join`.
+   *
+   * Defaults to `true`.
+   */
+  critical?: boolean;
+  /**
+   * If `true`, the spawn does not wait for the fork to finish before
+   * fulfilling or rejecting. The fork is still aborted once the spawn
+   * finishes.
    *
-   * When spawned function finishes, all forks are aborted.
+   * Defaults to `false`.
    */
-  fork<T>(fn: (signal: AbortSignal) => Promise<T>): ForkTask<T>;
+  detached?: boolean;
+  /**
+   * Called once the forked function throws an error other than `AbortError`,
+   * e.g. to log failures of non-critical forks. Errors thrown from `onError`
+   * itself do not fail the spawn and result in unhandled promise rejection.
+   */
+  onError?: (error: unknown) => void;
 };
 
+/**
+ * - `'running'`: the forked function has not finished yet.
+ * - `'fulfilled'`: the forked function returned.
+ * - `'rejected'`: the forked function threw an error other than `AbortError`.
+ * - `'aborted'`: the forked function threw `AbortError`.
+ */
+export type ForkStatus = 'running' | 'fulfilled' | 'rejected' | 'aborted';
+
 export type ForkTask<T> = {
   /**
    * Abort a forked function.
+   *
+   * Optional `reason` becomes `reason` of the signal passed to the forked
+   * function.
    */
-  abort(): void;
+  abort(reason?: unknown): void;
   /**
    * Returns a promise returned from a forked function.
+   *
+   * If `signal` is passed, the promise rejects with `AbortError` once it is
+   * aborted. The forked function keeps running in that case.
+   */
+  join(signal?: AbortSignal): Promise<T>;
+  readonly status: ForkStatus;
+  /**
+   * The value returned from the forked function once `status` is
+   * `'fulfilled'`.
    */
-  join(): Promise<T>;
+  readonly result: T | undefined;
+  /**
+   * The error thrown from the forked function once `status` is `'rejected'` or
+   * `'aborted'`.
+   */
+  readonly error: unknown;
 };
 
 /**
@@ -38,6 +187,10 @@ export type ForkTask<T> = {
  *
  * `spawn` allows to write Go-style coroutines.
  *
+ * Live spawns and their forks can be inspected with `getTaskTree`, e.g. to find
+ * out what blocks a shutdown. Use `name` option of `spawn` and `fork` to tell
+ * them apart.
+ *
  * Example:
  *
  *     // Connect to a database, then start a server, then block until abort.
@@ -119,12 +272,27 @@ export type ForkTask<T> = {
 export function spawn<T>(
   signal: AbortSignal,
   fn: (signal: AbortSignal, effects: SpawnEffects) => Promise<T>,
+  options: SpawnOptions = {},
 ): Promise<T> {
   if (signal.aborted) {
-    return Promise.reject(new AbortError());
+    return Promise.reject(new AbortError(signal.reason));
   }
 
-  const deferredFunctions: Array<() => void | Promise<void>> = [];
+  const {
+    shutdownTimeoutMs = Infinity,
+    aggregateErrors = false,
+    clock = systemClock,
+  } = options;
+
+  /**
+   * Errors other than `AbortError` thrown from the spawned function and forks.
+   */
+  const errors: unknown[] = [];
+
+  const deferredFunctions: Array<{
+    fn: (signal: AbortSignal) => void | Promise<void>;
+    shutdownTimeoutMs: number;
+  }> = [];
 
   /**
    * Aborted when spawned function finishes
@@ -134,8 +302,11 @@ export function spawn<T>(
   const spawnAbortController = new AbortController();
   const spawnSignal = spawnAbortController.signal;
 
+  const spawnRecord = registerTask('spawn', signal, spawnSignal, options);
+  bindTaskSignal(spawnSignal, spawnRecord);
+
   const abortSpawn = () => {
-    spawnAbortController.abort();
+    spawnAbortController.abort(signal.reason);
   };
   signal.addEventListener('abort', abortSpawn);
   const removeAbortListener = () => {
@@ -143,10 +314,14 @@ export function spawn<T>(
   };
 
   const tasks = new Set<ForkTask<unknown>>();
+  /**
+   * Number of running tasks that are not detached.
+   */
+  let pendingTasks = 0;
 
   const abortTasks = () => {
     for (const task of tasks) {
-      task.abort();
+      task.abort(spawnSignal.reason);
     }
   };
   spawnSignal.addEventListener('abort', abortTasks);
@@ -158,13 +333,19 @@ export function spawn<T>(
     let result: {value: T} | undefined;
     let failure: {error: unknown} | undefined;
 
-    fork(signal =>
+    startTask(signal =>
       fn(signal, {
-        defer(fn: () => void | Promise<void>) {
-          deferredFunctions.push(fn);
+        defer(fn, deferOptions = {}) {
+          deferredFunctions.push({
+            fn,
+            shutdownTimeoutMs:
+              deferOptions.shutdownTimeoutMs ?? shutdownTimeoutMs,
+          });
+          spawnRecord.pendingDeferreds += 1;
         },
 
         fork,
+        start,
       }),
     )
       .join()
@@ -174,7 +355,7 @@ export function spawn<T>(
           result = {value};
         },
         error => {
-          spawnAbortController.abort();
+          spawnAbortController.abort(error);
 
           if (!isAbortError(error) || failure == null) {
             failure = {error};
@@ -182,43 +363,225 @@ export function spawn<T>(
         },
       );
 
-    function fork<T>(forkFn: (signal: AbortSignal) => Promise<T>): ForkTask<T> {
+    function fork<T>(
+      forkFn: (signal: AbortSignal) => Promise<T>,
+      options: ForkOptions = {},
+    ): ForkTask<T> {
+      return forkTask(forkFn, options);
+    }
+
+    /**
+     * Same as `fork`. If `isReported` returns `true` once the forked function
+     * throws, the error is already reported to the caller and does not fail
+     * the spawn.
+     */
+    function forkTask<T>(
+      forkFn: (signal: AbortSignal) => Promise<T>,
+      options: ForkOptions,
+      isReported?: () => boolean,
+    ): ForkTask<T> {
       if (spawnSignal.aborted) {
         // return already aborted task
+        const error = new AbortError(spawnSignal.reason);
+
         return {
           abort() {},
           async join() {
-            throw new AbortError();
+            throw error;
           },
+          status: 'aborted',
+          result: undefined,
+          error,
         };
       }
 
+      const {restart} = options;
+
+      if (restart != null) {
+        return startTask(
+          signal =>
+            spawn(signal, async (signal, {fork}) => {
+              let value: T;
+
+              await runSupervisor(
+                signal,
+                fork,
+                [
+                  {
+                    async fn(signal) {
+                      value = await forkFn(signal);
+                    },
+                  },
+                ],
+                {clock, ...restart},
+              );
+
+              return value!;
+            }),
+          options,
+          isReported,
+        );
+      }
+
+      return startTask(forkFn, options, isReported);
+    }
+
+    function start<T>(
+      startFn: (
+        signal: AbortSignal,
+        started: (value: T) => void,
+      ) => Promise<unknown>,
+      options: ForkOptions = {},
+    ): Promise<T> {
+      if (spawnSignal.aborted) {
+        return Promise.reject(new AbortError(spawnSignal.reason));
+      }
+
+      return new Promise((resolve, reject) => {
+        let isStarted = false;
+        let failedToStart = false;
+
+        const failToStart = (error: unknown) => {
+          failedToStart = true;
+          reject(error);
+
+          // don't let `restart` run the function again. Deferred since
+          // `startFn` may throw before `task` is assigned
+          Promise.resolve().then(() => {
+            task.abort();
+          });
+        };
+
+        const task = forkTask(
+          async signal => {
+            try {
+              await startFn(signal, value => {
+                if (!isStarted) {
+                  isStarted = true;
+                  resolve(value);
+                }
+              });
+            } catch (error) {
+              if (!isStarted) {
+                failToStart(error);
+              }
+
+              throw error;
+            }
+
+            if (!isStarted) {
+              const error = new Error(
+                'Started function returned without calling `started`',
+              );
+
+              failToStart(error);
+
+              throw error;
+            }
+          },
+          options,
+          () => failedToStart,
+        );
+      });
+    }
+
+    /**
+     * Runs a function of a fork, or the spawned function itself if `options`
+     * are omitted.
+     */
+    function startTask<T>(
+      forkFn: (signal: AbortSignal) => Promise<T>,
+      options?: ForkOptions,
+      isReported?: () => boolean,
+    ): ForkTask<T> {
+      const {critical = true, detached = false, onError} = options ?? {};
+
       const taskAbortController = new AbortController();
       const taskSignal = taskAbortController.signal;
 
+      const taskRecord =
+        options == null
+          ? spawnRecord
+          : registerTask('fork', spawnSignal, taskSignal, options);
+      bindTaskSignal(taskSignal, taskRecord);
+
       const taskPromise = forkFn(taskSignal);
 
+      let status: ForkStatus = 'running';
+      let taskResult: T | undefined;
+      let taskError: unknown;
+
+      taskPromise.then(
+        value => {
+          status = 'fulfilled';
+          taskResult = value;
+        },
+        error => {
+          status = isAbortError(error) ? 'aborted' : 'rejected';
+          taskError = error;
+        },
+      );
+
       const task: ForkTask<T> = {
-        abort() {
-          taskAbortController.abort();
+        abort(reason) {
+          taskAbortController.abort(reason);
+        },
+        join: signal =>
+          signal == null ? taskPromise : abortable(signal, taskPromise),
+        get status() {
+          return status;
+        },
+        get result() {
+          return taskResult;
+        },
+        get error() {
+          return taskError;
         },
-        join: () => taskPromise,
       };
 
       tasks.add(task);
 
+      if (!detached) {
+        pendingTasks += 1;
+      }
+
       taskPromise
         .catch(catchAbortError)
+        .catch(error => {
+          if (onError != null) {
+            try {
+              onError(error);
+            } catch (onErrorError) {
+              // raise out of band so that it does not fail the spawn
+              Promise.reject(onErrorError);
+            }
+          }
+
+          if (critical && !isReported?.()) {
+            throw error;
+          }
+        })
         .catch(error => {
           failure = {error};
+          errors.push(error);
 
           // error in forked function
-          spawnAbortController.abort();
+          spawnAbortController.abort(error);
         })
         .finally(() => {
           tasks.delete(task);
 
-          if (tasks.size === 0) {
+          if (taskRecord !== spawnRecord) {
+            unregisterTask(taskRecord);
+          }
+
+          if (detached) {
+            return;
+          }
+
+          pendingTasks -= 1;
+
+          if (pendingTasks === 0) {
             if (failure != null) {
               reject(failure.error);
             } else {
@@ -231,18 +594,109 @@ export function spawn<T>(
     }
   });
 
-  promise = promise.finally(() => {
+  /**
+   * Runs deferred functions and returns errors thrown from them.
+   */
+  const runDeferredFunctions = async () => {
     removeAbortListener();
     removeSpawnAbortListener();
 
-    let deferPromise = Promise.resolve();
+    spawnRecord.cleaningUp = true;
+
+    const deferErrors: unknown[] = [];
 
     for (let i = deferredFunctions.length - 1; i >= 0; i--) {
-      deferPromise = deferPromise.finally(deferredFunctions[i]);
+      const deferred = deferredFunctions[i];
+
+      try {
+        await runDeferredFunction(
+          deferred.fn,
+          deferred.shutdownTimeoutMs,
+          clock,
+        );
+      } catch (error) {
+        deferErrors.push(error);
+      } finally {
+        spawnRecord.pendingDeferreds -= 1;
+      }
     }
 
-    return deferPromise;
-  });
+    unregisterTask(spawnRecord);
+
+    return deferErrors;
+  };
+
+  const finish = (
+    outcome: {value: T} | {error: unknown},
+    deferErrors: unknown[],
+  ): T => {
+    if (aggregateErrors) {
+      const allErrors = [
+        ...errors,
+        ...deferErrors.filter(error => !isAbortError(error)),
+      ];
+
+      if (allErrors.length > 0) {
+        throw new SpawnError(allErrors);
+      }
+    } else if (deferErrors.length > 0) {
+      throw deferErrors[deferErrors.length - 1];
+    }
+
+    if ('error' in outcome) {
+      throw outcome.error;
+    }
+
+    return outcome.value;
+  };
+
+  promise = promise.then(
+    value =>
+      runDeferredFunctions().then(deferErrors => finish({value}, deferErrors)),
+    error =>
+      runDeferredFunctions().then(deferErrors => finish({error}, deferErrors)),
+  );
 
   return promise;
 }
+
+/**
+ * Runs a deferred function, abandoning it once `shutdownTimeoutMs` passes.
+ */
+function runDeferredFunction(
+  fn: (signal: AbortSignal) => void | Promise<void>,
+  shutdownTimeoutMs: number,
+  clock: Clock,
+): Promise<void> {
+  const abortController = new AbortController();
+
+  const promise = new Promise<void>(resolve => {
+    resolve(fn(abortController.signal));
+  });
+
+  if (shutdownTimeoutMs === Infinity) {
+    return promise;
+  }
+
+  return new Promise((resolve, reject) => {
+    const timer = clock.setTimeout(() => {
+      const error = new TimeoutError(
+        `Deferred function timed out: shutdownTimeoutMs of ${shutdownTimeoutMs}ms elapsed`,
+      );
+
+      abortController.abort(error);
+      reject(error);
+    }, shutdownTimeoutMs);
+
+    promise.then(
+      () => {
+        clock.clearTimeout(timer);
+        resolve();
+      },
+      error => {
+        clock.clearTimeout(timer);
+        reject(error);
+      },
+    );
+  });
+}
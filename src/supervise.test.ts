@@ -0,0 +1,251 @@
+import {AbortError} from './AbortError';
+import {constantBackoff} from './backoff';
+import {forever} from './forever';
+import {spawn} from './spawn';
+import {isSpawnError} from './SpawnError';
+import {supervise, SupervisedChild, SupervisorStrategy} from './supervise';
+import {VirtualClock} from './VirtualClock';
+
+function createChildren(actions: string[], failing: string) {
+  const fails: Record<string, () => void> = {};
+
+  const children: SupervisedChild[] = ['a', 'b', 'c'].map(name => ({
+    name,
+    async fn(signal) {
+      actions.push(`start ${name}`);
+
+      try {
+        await new Promise<void>((resolve, reject) => {
+          fails[name] = () => reject(new Error(`${name} failed`));
+          signal.addEventListener('abort', () =>
+            reject(new AbortError(signal.reason)),
+          );
+        });
+      } catch (error) {
+        actions.push(`stop ${name}`);
+        throw error;
+      }
+    },
+  }));
+
+  return {children, fail: () => fails[failing]()};
+}
+
+test.each<[SupervisorStrategy, string[]]>([
+  ['one-for-one', ['stop b', 'start b']],
+  [
+    'one-for-all',
+    ['stop b', 'stop c', 'stop a', 'start a', 'start b', 'start c'],
+  ],
+  ['rest-for-one', ['stop b', 'stop c', 'start b', 'start c']],
+])('%s strategy', async (strategy, expectedActions) => {
+  const clock = new VirtualClock();
+  const abortController = new AbortController();
+  const actions: string[] = [];
+  const onRestart = jest.fn();
+
+  const {children, fail} = createChildren(actions, 'b');
+
+  const promise = supervise(abortController.signal, children, {
+    strategy,
+    backoff: constantBackoff(100),
+    onRestart,
+    clock,
+  });
+
+  await clock.advance(0);
+  expect(actions).toEqual(['start a', 'start b', 'start c']);
+  actions.length = 0;
+
+  fail();
+  await clock.advance(99);
+
+  expect(onRestart).toHaveBeenCalledTimes(1);
+  expect(onRestart).toHaveBeenCalledWith(new Error('b failed'), children[1]);
+
+  await clock.advance(1);
+  expect(actions).toEqual(expectedActions);
+
+  abortController.abort();
+  await expect(promise).rejects.toMatchObject({name: 'AbortError'});
+});
+
+test('restart intensity', async () => {
+  const clock = new VirtualClock();
+  const actions: string[] = [];
+
+  const {children, fail} = createChildren(actions, 'a');
+
+  const promise = supervise(new AbortController().signal, children, {
+    maxRestarts: 2,
+    periodMs: 1000,
+    backoff: constantBackoff(0),
+    clock,
+  });
+  promise.catch(() => {});
+
+  await clock.advance(0);
+
+  fail();
+  await clock.advance(500);
+  fail();
+  await clock.advance(600);
+
+  // first restart is out of the period
+  fail();
+  await clock.advance(100);
+  fail();
+  await clock.advance(0);
+
+  await expect(promise).rejects.toThrow('a failed');
+
+  expect(actions.filter(action => action === 'start a')).toHaveLength(4);
+  expect(actions.slice(-3)).toEqual(['stop a', 'stop b', 'stop c']);
+});
+
+test('done children', async () => {
+  const clock = new VirtualClock();
+  const actions: string[] = [];
+
+  let attempt = 0;
+
+  const promise = supervise(
+    new AbortController().signal,
+    [
+      {
+        async fn() {
+          actions.push('a done');
+        },
+      },
+      {
+        async fn() {
+          attempt += 1;
+
+          if (attempt === 1) {
+            throw new Error('b failed');
+          }
+
+          actions.push('b done');
+        },
+      },
+    ],
+    {strategy: 'one-for-all', backoff: constantBackoff(0), clock},
+  );
+
+  await clock.runAll();
+  await promise;
+
+  expect(actions).toEqual(['a done', 'b done']);
+});
+
+test('spawn options', async () => {
+  const error = await supervise(
+    new AbortController().signal,
+    [
+      {
+        async fn() {
+          throw new Error('a failed');
+        },
+      },
+    ],
+    {maxRestarts: 0, aggregateErrors: true},
+  ).catch(error => error);
+
+  expect(isSpawnError(error)).toBe(true);
+  expect(error.errors).toEqual([new Error('a failed')]);
+});
+
+test('fork restart', async () => {
+  const clock = new VirtualClock();
+
+  let attempt = 0;
+
+  const promise = spawn(
+    new AbortController().signal,
+    async (signal, {fork}) => {
+      const task = fork(
+        async () => {
+          attempt += 1;
+
+          if (attempt < 3) {
+            throw new Error(`attempt ${attempt} failed`);
+          }
+
+          return attempt;
+        },
+        {restart: {backoff: constantBackoff(100), clock}},
+      );
+
+      return await task.join();
+    },
+  );
+
+  await clock.runAll();
+
+  await expect(promise).resolves.toBe(3);
+});
+
+test('fork restart with spawn clock', async () => {
+  const clock = new VirtualClock();
+
+  let attempt = 0;
+
+  const promise = spawn(
+    new AbortController().signal,
+    async (signal, {fork}) => {
+      const task = fork(
+        async () => {
+          attempt += 1;
+
+          if (attempt < 2) {
+            throw new Error(`attempt ${attempt} failed`);
+          }
+
+          return attempt;
+        },
+        {restart: {backoff: constantBackoff(100)}},
+      );
+
+      return await task.join();
+    },
+    {clock},
+  );
+
+  await clock.advance(0);
+  expect(clock.pendingTimers).toBe(1);
+
+  await clock.advance(100);
+
+  await expect(promise).resolves.toBe(2);
+});
+
+test('fork restart escalation', async () => {
+  const clock = new VirtualClock();
+  const actions: string[] = [];
+
+  const promise = spawn(
+    new AbortController().signal,
+    async (signal, {fork}) => {
+      fork(
+        async () => {
+          actions.push('fork start');
+          throw new Error('fork failed');
+        },
+        {restart: {maxRestarts: 1, backoff: constantBackoff(100), clock}},
+      );
+
+      try {
+        await forever(signal);
+      } catch (error) {
+        actions.push('spawn abort');
+        throw error;
+      }
+    },
+  );
+  promise.catch(() => {});
+
+  await clock.runAll();
+
+  await expect(promise).rejects.toThrow('fork failed');
+  expect(actions).toEqual(['fork start', 'fork start', 'spawn abort']);
+});
@@ -0,0 +1,62 @@
+import {spawn, SpawnOptions} from './spawn';
+import {
+  runSupervisor,
+  SupervisedChild,
+  SupervisorOptions,
+} from './utils/supervisor';
+
+export type {
+  RestartOptions,
+  SupervisedChild,
+  SupervisorStrategy,
+} from './utils/supervisor';
+
+export type SuperviseOptions = SupervisorOptions & SpawnOptions;
+
+/**
+ * Runs long-lived children and restarts them once they fail, Erlang-style.
+ *
+ * Children start in order. A child that fulfills is done and is not
+ * restarted. Once a child rejects, the children affected according to
+ * `strategy` are aborted in reverse order, and started again in order after a
+ * backoff delay. Children that are done are not started again.
+ *
+ * If children fail more than `maxRestarts` times within `periodMs`, the
+ * supervisor aborts all children and rejects with the error of the child that
+ * failed last, escalating the failure to the caller, e.g. to the parent
+ * `spawn` if the supervisor runs in a fork.
+ *
+ * Returns a promise that fulfills once all children are done, and rejects with
+ * `AbortError` once `signal` is aborted and all children finish.
+ *
+ * Children run in forks of a `spawn`, which receives the spawn options, e.g.
+ * `name` and `aggregateErrors`.
+ *
+ * Example:
+ *
+ *     await supervise(
+ *       signal,
+ *       [
+ *         {name: 'db', fn: signal => keepDbConnection(signal, pool)},
+ *         {name: 'consumer', fn: signal => consumeQueue(signal, pool)},
+ *       ],
+ *       {
+ *         // consumer depends on db connection
+ *         strategy: 'rest-for-one',
+ *         onRestart(error, child) {
+ *           console.error(`Restarting ${child.name}`, error);
+ *         },
+ *       },
+ *     );
+ */
+export function supervise(
+  signal: AbortSignal,
+  children: SupervisedChild[],
+  options: SuperviseOptions = {},
+): Promise<void> {
+  return spawn(
+    signal,
+    (signal, {fork}) => runSupervisor(signal, fork, children, options),
+    options,
+  );
+}
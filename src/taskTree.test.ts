@@ -0,0 +1,195 @@
+import {forever} from './forever';
+import {spawn} from './spawn';
+import {formatTaskTree, getTaskTree} from './taskTree';
+import {nextTick} from './utils/nextTick';
+
+let now = 1000;
+
+beforeEach(() => {
+  jest.spyOn(Date, 'now').mockImplementation(() => now);
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+test('nested tasks', async () => {
+  const abortController = new AbortController();
+  const signal = abortController.signal;
+
+  const promise = spawn(
+    signal,
+    async (signal, {fork, defer}) => {
+      defer(() => {});
+      defer(() => {});
+
+      fork(
+        async signal => {
+          await spawn(
+            signal,
+            async signal => {
+              await forever(signal);
+            },
+            {name: 'request', metadata: {path: '/users'}},
+          );
+        },
+        {name: 'http'},
+      );
+
+      fork(async signal => {
+        await forever(signal);
+      });
+
+      await forever(signal);
+    },
+    {name: 'server'},
+  );
+
+  now += 100;
+
+  const tree = getTaskTree();
+
+  expect(formatTaskTree(tree)).toMatchInlineSnapshot(`
+    "spawn #1 \\"server\\" (running, 100ms, 2 pending deferreds)
+    ├─ fork #2 \\"http\\" (running, 100ms)
+    │  └─ spawn #3 \\"request\\" {\\"path\\":\\"/users\\"} (running, 100ms)
+    └─ fork #4 (running, 100ms)"
+  `);
+
+  expect(JSON.parse(JSON.stringify(tree))).toEqual(tree);
+  expect(tree).toMatchObject([
+    {
+      id: 1,
+      kind: 'spawn',
+      name: 'server',
+      state: 'running',
+      startTime: 1000,
+      ageMs: 100,
+      pendingDeferreds: 2,
+      children: [
+        {
+          kind: 'fork',
+          name: 'http',
+          children: [
+            {kind: 'spawn', name: 'request', metadata: {path: '/users'}},
+          ],
+        },
+        {kind: 'fork', children: []},
+      ],
+    },
+  ]);
+
+  abortController.abort();
+
+  await expect(promise).rejects.toMatchObject({name: 'AbortError'});
+
+  expect(getTaskTree()).toEqual([]);
+});
+
+test('shutdown states', async () => {
+  const abortController = new AbortController();
+  const signal = abortController.signal;
+
+  let finishFork!: () => void;
+  let finishDefer!: () => void;
+
+  const promise = spawn(signal, async (signal, {fork, defer}) => {
+    defer(
+      () =>
+        new Promise<void>(resolve => {
+          finishDefer = resolve;
+        }),
+    );
+
+    fork(
+      () =>
+        new Promise<void>(resolve => {
+          finishFork = resolve;
+        }),
+      {name: 'stubborn'},
+    );
+
+    await forever(signal);
+  });
+
+  abortController.abort();
+  await nextTick();
+
+  expect(getTaskTree()).toMatchObject([
+    {
+      kind: 'spawn',
+      state: 'aborting',
+      pendingDeferreds: 1,
+      children: [{kind: 'fork', name: 'stubborn', state: 'aborting'}],
+    },
+  ]);
+
+  finishFork();
+  await nextTick();
+
+  expect(getTaskTree()).toMatchObject([
+    {
+      kind: 'spawn',
+      state: 'cleaning-up',
+      pendingDeferreds: 1,
+      children: [],
+    },
+  ]);
+
+  finishDefer();
+
+  await expect(promise).rejects.toMatchObject({name: 'AbortError'});
+
+  expect(getTaskTree()).toEqual([]);
+});
+
+test('detached fork outlives its spawn', async () => {
+  const abortController = new AbortController();
+
+  let finishFork!: () => void;
+
+  const promise = spawn(
+    abortController.signal,
+    async signal => {
+      await spawn(
+        signal,
+        async (signal, {fork}) => {
+          fork(
+            () =>
+              new Promise<void>(resolve => {
+                finishFork = resolve;
+              }),
+            {name: 'flusher', detached: true},
+          );
+        },
+        {name: 'job'},
+      );
+
+      await forever(signal);
+    },
+    {name: 'server'},
+  );
+
+  await nextTick();
+
+  expect(getTaskTree()).toMatchObject([
+    {
+      kind: 'spawn',
+      name: 'server',
+      children: [{kind: 'fork', name: 'flusher', state: 'aborting'}],
+    },
+  ]);
+
+  abortController.abort();
+
+  await expect(promise).rejects.toMatchObject({name: 'AbortError'});
+
+  expect(getTaskTree()).toMatchObject([
+    {kind: 'fork', name: 'flusher', state: 'aborting', children: []},
+  ]);
+
+  finishFork();
+  await nextTick();
+
+  expect(getTaskTree()).toEqual([]);
+});
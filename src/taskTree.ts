@@ -0,0 +1,156 @@
+import {rootTasks, TaskRecord} from './utils/taskRegistry';
+
+/**
+ * - `'running'`: the task is running normally.
+ * - `'aborting'`: the signal of the task is aborted, and it is waiting for its
+ *   function and forks to finish.
+ * - `'cleaning-up'`: the task finished and is running deferred functions.
+ */
+export type TaskState = 'running' | 'aborting' | 'cleaning-up';
+
+/**
+ * Snapshot of a live `spawn` or `fork`.
+ */
+export type TaskTreeNode = {
+  /**
+   * Unique identifier of the task within the process.
+   */
+  id: number;
+  kind: 'spawn' | 'fork';
+  /**
+   * Name passed via `name` option.
+   */
+  name?: string;
+  /**
+   * Metadata passed via `metadata` option.
+   */
+  metadata?: Record<string, unknown>;
+  state: TaskState;
+  /**
+   * Unix time in milliseconds when the task started.
+   */
+  startTime: number;
+  /**
+   * Time since the task started in milliseconds.
+   */
+  ageMs: number;
+  /**
+   * Number of deferred functions that are registered but not finished yet.
+   * Always 0 for forks.
+   */
+  pendingDeferreds: number;
+  /**
+   * Forks of a spawn, and spawns started with the signal of a fork or a spawn.
+   */
+  children: TaskTreeNode[];
+};
+
+/**
+ * Returns a snapshot of all live spawns and their forks.
+ *
+ * A `spawn` is nested under a task if it was called with the signal passed to
+ * the function of that task. Spawns called with any other signal are roots.
+ *
+ * The snapshot consists of plain objects, so it can be serialized with
+ * `JSON.stringify` as long as metadata can.
+ *
+ * Example:
+ *
+ *     process.on('SIGUSR2', () => {
+ *       console.log(formatTaskTree(getTaskTree()));
+ *     });
+ */
+export function getTaskTree(): TaskTreeNode[] {
+  const now = Date.now();
+
+  return Array.from(rootTasks, record => toNode(record, now));
+}
+
+/**
+ * Formats a task tree returned from `getTaskTree` as human-readable text, one
+ * task per line.
+ *
+ * Example output:
+ *
+ *     spawn #1 "server" (running, 5021ms, 2 pending deferreds)
+ *     ├─ fork #2 "http" (running, 5019ms)
+ *     │  └─ spawn #5 "request" {"path":"/users"} (aborting, 12ms)
+ *     └─ fork #3 "metrics" (running, 5019ms)
+ */
+export function formatTaskTree(tree: TaskTreeNode[]): string {
+  const lines: string[] = [];
+
+  const formatNodes = (
+    nodes: TaskTreeNode[],
+    prefix: string,
+    root: boolean,
+  ) => {
+    nodes.forEach((node, index) => {
+      const last = index === nodes.length - 1;
+
+      lines.push(
+        `${prefix}${root ? '' : last ? '└─ ' : '├─ '}${formatNode(node)}`,
+      );
+
+      formatNodes(
+        node.children,
+        root ? prefix : `${prefix}${last ? '   ' : '│  '}`,
+        false,
+      );
+    });
+  };
+
+  formatNodes(tree, '', true);
+
+  return lines.join('\n');
+}
+
+function formatNode(node: TaskTreeNode): string {
+  let text = `${node.kind} #${node.id}`;
+
+  if (node.name != null) {
+    text += ` ${JSON.stringify(node.name)}`;
+  }
+
+  if (node.metadata != null) {
+    text += ` ${JSON.stringify(node.metadata)}`;
+  }
+
+  const details = [node.state, `${node.ageMs}ms`];
+
+  if (node.pendingDeferreds > 0) {
+    details.push(
+      `${node.pendingDeferreds} pending deferred${
+        node.pendingDeferreds === 1 ? '' : 's'
+      }`,
+    );
+  }
+
+  return `${text} (${details.join(', ')})`;
+}
+
+function toNode(record: TaskRecord, now: number): TaskTreeNode {
+  const node: TaskTreeNode = {
+    id: record.id,
+    kind: record.kind,
+    state: record.cleaningUp
+      ? 'cleaning-up'
+      : record.signal.aborted
+      ? 'aborting'
+      : 'running',
+    startTime: record.startTime,
+    ageMs: now - record.startTime,
+    pendingDeferreds: record.pendingDeferreds,
+    children: Array.from(record.children, child => toNode(child, now)),
+  };
+
+  if (record.name != null) {
+    node.name = record.name;
+  }
+
+  if (record.metadata != null) {
+    node.metadata = record.metadata;
+  }
+
+  return node;
+}
@@ -0,0 +1,130 @@
+import {isAbortError} from './AbortError';
+import {delay} from './delay';
+import {forever} from './forever';
+import {moveOnAfter, timeout} from './timeout';
+import {isTimeoutError} from './TimeoutError';
+import {supportsAbortReason} from './utils/abortReason';
+import {VirtualClock} from './VirtualClock';
+
+test('timeout: fulfill in time', async () => {
+  const abortController = new AbortController();
+  const signal = abortController.signal;
+  signal.addEventListener = jest.fn(signal.addEventListener);
+  signal.removeEventListener = jest.fn(signal.removeEventListener);
+
+  await expect(
+    timeout(signal, 1000, async signal => {
+      await delay(signal, 0);
+      return 'test';
+    }),
+  ).resolves.toBe('test');
+
+  expect(signal.addEventListener).toHaveBeenCalledTimes(1);
+  expect(signal.removeEventListener).toHaveBeenCalledTimes(1);
+});
+
+test('timeout: time out', async () => {
+  const abortController = new AbortController();
+  const signal = abortController.signal;
+  signal.addEventListener = jest.fn(signal.addEventListener);
+  signal.removeEventListener = jest.fn(signal.removeEventListener);
+
+  let innerSignal: AbortSignal;
+
+  const error = await timeout(signal, 10, signal => {
+    innerSignal = signal;
+    return forever(signal);
+  }).catch(error => error);
+
+  expect(error).toMatchObject({
+    name: 'TimeoutError',
+    message: 'The operation has timed out',
+  });
+  expect(isTimeoutError(error)).toBe(true);
+  expect(isAbortError(error)).toBe(false);
+  expect(innerSignal!.aborted).toBe(true);
+
+  if (supportsAbortReason) {
+    expect(innerSignal!.reason).toBe(error);
+  }
+
+  expect(signal.addEventListener).toHaveBeenCalledTimes(1);
+  expect(signal.removeEventListener).toHaveBeenCalledTimes(1);
+});
+
+test('timeout: external abort', async () => {
+  const abortController = new AbortController();
+  const signal = abortController.signal;
+
+  const promise = timeout(signal, 1000, signal => forever(signal));
+
+  abortController.abort();
+
+  await expect(promise).rejects.toMatchObject({name: 'AbortError'});
+});
+
+test('timeout: reject', async () => {
+  const signal = new AbortController().signal;
+
+  await expect(
+    timeout(signal, 1000, async () => {
+      throw new Error('test');
+    }),
+  ).rejects.toMatchObject({message: 'test'});
+});
+
+test('timeout: synchronous throw', async () => {
+  const clock = new VirtualClock();
+  const signal = new AbortController().signal;
+
+  await expect(
+    timeout(
+      signal,
+      50,
+      () => {
+        throw new Error('sync');
+      },
+      {clock},
+    ),
+  ).rejects.toThrow('sync');
+
+  await expect(
+    moveOnAfter(
+      signal,
+      50,
+      () => {
+        throw new Error('sync');
+      },
+      {clock},
+    ),
+  ).rejects.toThrow('sync');
+
+  expect(clock.pendingTimers).toBe(0);
+});
+
+test('timeout: due date', async () => {
+  const signal = new AbortController().signal;
+
+  await expect(
+    timeout(signal, new Date(Date.now() + 10), signal => forever(signal)),
+  ).rejects.toMatchObject({name: 'TimeoutError'});
+});
+
+test('moveOnAfter', async () => {
+  const signal = new AbortController().signal;
+
+  await expect(moveOnAfter(signal, 1000, async () => 'test')).resolves.toBe(
+    'test',
+  );
+
+  let innerSignal: AbortSignal;
+
+  await expect(
+    moveOnAfter(signal, 10, signal => {
+      innerSignal = signal;
+      return forever(signal);
+    }),
+  ).resolves.toBeUndefined();
+
+  expect(innerSignal!.aborted).toBe(true);
+});
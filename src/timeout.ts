@@ -0,0 +1,79 @@
+import {delay, DelayOptions} from './delay';
+import {race} from './race';
+import {TimeoutError} from './TimeoutError';
+
+export type TimeoutOptions = DelayOptions;
+
+/**
+ * Run an abortable function with a time limit.
+ *
+ * The function receives an inner `AbortSignal` that is aborted when `signal`
+ * is aborted or when the time is out. In the latter case, `reason` of the
+ * inner signal is `TimeoutError`.
+ *
+ * Returns a promise that fulfills or rejects with the result of the function,
+ * rejects with `TimeoutError` when the time is out, and rejects with
+ * `AbortError` when `signal` is aborted.
+ *
+ * The due time is specified as a `Date` object or as an integer denoting
+ * milliseconds to wait.
+ *
+ * Example:
+ *
+ *     try {
+ *       const response = await timeout(signal, 5000, signal =>
+ *         makeRequest(signal, params),
+ *       );
+ *     } catch (err) {
+ *       if (isTimeoutError(err)) {
+ *         // request timed out
+ *       }
+ *
+ *       throw err;
+ *     }
+ */
+export function timeout<T>(
+  signal: AbortSignal,
+  dueTime: number | Date,
+  fn: (signal: AbortSignal) => PromiseLike<T>,
+  options: TimeoutOptions = {},
+): Promise<T> {
+  return race(signal, signal => [
+    // call `fn` before arming the timer so that a synchronous throw does not
+    // leave the timer running
+    new Promise<T>(resolve => {
+      resolve(fn(signal));
+    }),
+    delay(signal, dueTime, options).then((): never => {
+      throw new TimeoutError();
+    }),
+  ]);
+}
+
+/**
+ * Same as `timeout`, but fulfills with `undefined` instead of rejecting with
+ * `TimeoutError` when the time is out.
+ *
+ * Example:
+ *
+ *     const response = await moveOnAfter(signal, 5000, signal =>
+ *       makeRequest(signal, params),
+ *     );
+ *
+ *     if (response === undefined) {
+ *       // request timed out
+ *     }
+ */
+export function moveOnAfter<T>(
+  signal: AbortSignal,
+  dueTime: number | Date,
+  fn: (signal: AbortSignal) => PromiseLike<T>,
+  options: TimeoutOptions = {},
+): Promise<T | undefined> {
+  return race(signal, signal => [
+    new Promise<T>(resolve => {
+      resolve(fn(signal));
+    }),
+    delay(signal, dueTime, options).then(() => undefined),
+  ]);
+}
@@ -0,0 +1,31 @@
+/**
+ * Constructor of `AggregateError`. Declared here instead of using the one from
+ * `es2021.promise` lib, so that the typings work with older libs.
+ */
+export type AggregateErrorBaseConstructor = new (
+  errors: Iterable<unknown>,
+  message?: string,
+) => Error & {errors: unknown[]};
+
+/**
+ * Native `AggregateError` if available, or a minimal replacement for runtimes
+ * that lack it, e.g. NodeJS 14.
+ */
+export const AggregateErrorBase: AggregateErrorBaseConstructor =
+  typeof (globalThis as any).AggregateError === 'function'
+    ? (globalThis as any).AggregateError
+    : (class AggregateError extends Error {
+        errors: any[];
+
+        constructor(errors: Iterable<any>, message?: string) {
+          super(message);
+
+          this.errors = Array.from(errors);
+
+          this.name = 'AggregateError';
+
+          if (typeof Error.captureStackTrace === 'function') {
+            Error.captureStackTrace(this, this.constructor);
+          }
+        }
+      } as any);
@@ -0,0 +1,11 @@
+/**
+ * Whether the runtime supports `AbortSignal.reason`, which is only available
+ * since Node 16.14.
+ */
+export const supportsAbortReason = 'reason' in AbortSignal.prototype;
+
+/**
+ * Same as `test`, but skipped if the runtime does not support
+ * `AbortSignal.reason`.
+ */
+export const testAbortReason = supportsAbortReason ? test : test.skip;
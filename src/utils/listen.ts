@@ -0,0 +1,50 @@
+import {EventTargetLike} from '../waitForEvent';
+
+export function listen<T>(
+  target: EventTargetLike<T>,
+  eventName: string | symbol,
+  handler: (...args: any[]) => void,
+  options?: EventTargetLike.EventListenerOptions,
+) {
+  if (isEventTarget(target)) {
+    target.addEventListener(eventName, handler, options);
+    return () => target.removeEventListener(eventName, handler, options);
+  }
+
+  if (isJQueryStyleEventEmitter(target)) {
+    target.on(eventName, handler);
+    return () => target.off(eventName, handler);
+  }
+
+  if (isNodeStyleEventEmitter(target)) {
+    target.addListener(eventName, handler);
+    return () => target.removeListener(eventName, handler);
+  }
+
+  throw new Error('Invalid event target');
+}
+
+function isNodeStyleEventEmitter(
+  sourceObj: any,
+): sourceObj is EventTargetLike.NodeStyleEventEmitter {
+  return (
+    isFunction(sourceObj.addListener) && isFunction(sourceObj.removeListener)
+  );
+}
+
+function isJQueryStyleEventEmitter(
+  sourceObj: any,
+): sourceObj is EventTargetLike.JQueryStyleEventEmitter<any, any> {
+  return isFunction(sourceObj.on) && isFunction(sourceObj.off);
+}
+
+function isEventTarget(
+  sourceObj: any,
+): sourceObj is EventTargetLike.HasEventTargetAddRemove<any> {
+  return (
+    isFunction(sourceObj.addEventListener) &&
+    isFunction(sourceObj.removeEventListener)
+  );
+}
+
+const isFunction = (obj: any) => typeof obj === 'function';
@@ -0,0 +1,86 @@
+import {Clock} from '../Clock';
+import {delay} from '../delay';
+import {race} from '../race';
+import {TimeoutError} from '../TimeoutError';
+
+export type RetryDeadline = {
+  /**
+   * Unix time in milliseconds.
+   */
+  time: number;
+  /**
+   * Creates the error to reject with once the deadline is reached.
+   */
+  createError(lastError: unknown): TimeoutError;
+};
+
+/**
+ * Combines `maxElapsedMs` and `deadline` options into the one that comes
+ * first, counting `maxElapsedMs` from now.
+ */
+export function getRetryDeadline(
+  maxElapsedMs: number,
+  deadline: Date | undefined,
+  clock: Clock,
+): RetryDeadline | undefined {
+  let result: RetryDeadline | undefined;
+
+  if (maxElapsedMs !== Infinity) {
+    result = {
+      time: clock.now() + maxElapsedMs,
+      createError: lastError =>
+        new TimeoutError(
+          `Retry time limit exceeded: maxElapsedMs of ${maxElapsedMs}ms elapsed`,
+          lastError,
+        ),
+    };
+  }
+
+  if (
+    deadline != null &&
+    (result == null || deadline.getTime() < result.time)
+  ) {
+    result = {
+      time: deadline.getTime(),
+      createError: lastError =>
+        new TimeoutError(
+          `Retry time limit exceeded: deadline of ${deadline.toISOString()} passed`,
+          lastError,
+        ),
+    };
+  }
+
+  return result;
+}
+
+/**
+ * Runs a single attempt with `attemptTimeoutMs` limit.
+ *
+ * Once the time is out, the signal passed to `fn` is aborted and the attempt
+ * rejects with `TimeoutError`.
+ */
+export function withAttemptTimeout<T>(
+  signal: AbortSignal,
+  attemptTimeoutMs: number,
+  clock: Clock,
+  fn: (signal: AbortSignal) => PromiseLike<T>,
+): Promise<T> {
+  if (attemptTimeoutMs === Infinity) {
+    return new Promise<T>(resolve => {
+      resolve(fn(signal));
+    });
+  }
+
+  return race(signal, signal => [
+    // call `fn` before arming the timer so that a synchronous throw does not
+    // leave the timer running
+    new Promise<T>(resolve => {
+      resolve(fn(signal));
+    }),
+    delay(signal, attemptTimeoutMs, {clock}).then((): never => {
+      throw new TimeoutError(
+        `Attempt timed out: attemptTimeoutMs of ${attemptTimeoutMs}ms elapsed`,
+      );
+    }),
+  ]);
+}
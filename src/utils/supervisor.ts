@@ -0,0 +1,226 @@
+import {Backoff, exponentialBackoff} from '../backoff';
+import {Channel} from '../Channel';
+import {Clock, systemClock} from '../Clock';
+import {delay} from '../delay';
+
+/**
+ * Decides which children are restarted once a child fails.
+ *
+ * - `'one-for-one'`: only the failed child.
+ * - `'one-for-all'`: all children.
+ * - `'rest-for-one'`: the failed child and the children after it.
+ */
+export type SupervisorStrategy = 'one-for-one' | 'one-for-all' | 'rest-for-one';
+
+export type SupervisedChild = {
+  /**
+   * Long-lived abortable function to run.
+   */
+  fn: (signal: AbortSignal) => Promise<void>;
+  /**
+   * Name of the fork shown in `getTaskTree`.
+   */
+  name?: string;
+  /**
+   * Arbitrary data shown in `getTaskTree`.
+   */
+  metadata?: Record<string, unknown>;
+};
+
+export type RestartOptions = {
+  /**
+   * Maximum number of restarts within `periodMs`. Once a child fails more
+   * often, the supervisor gives up, aborts all children, and rejects with the
+   * error of that child.
+   *
+   * Defaults to 3.
+   */
+  maxRestarts?: number;
+  /**
+   * Time window in milliseconds in which restarts are counted.
+   *
+   * Defaults to 5 seconds.
+   */
+  periodMs?: number;
+  /**
+   * Strategy for computing delays before restarts. Receives the number of
+   * restarts within `periodMs` before this one.
+   *
+   * Defaults to exponential backoff with equal jitter starting at 100ms.
+   */
+  backoff?: Backoff;
+  /**
+   * Called after a child fails, before it is restarted.
+   */
+  onRestart?: (error: unknown, child: SupervisedChild) => void;
+  /**
+   * Clock used to measure time.
+   *
+   * Defaults to `systemClock`.
+   */
+  clock?: Clock;
+};
+
+export type SupervisorOptions = RestartOptions & {
+  /**
+   * Defaults to `'one-for-one'`.
+   */
+  strategy?: SupervisorStrategy;
+};
+
+/**
+ * The subset of `fork` effect of `spawn` used by the supervisor.
+ */
+export type SupervisorFork = (
+  fn: (signal: AbortSignal) => Promise<void>,
+  options: {name?: string; metadata?: Record<string, unknown>},
+) => SupervisorTask;
+
+type SupervisorTask = {
+  abort(): void;
+  join(): Promise<void>;
+};
+
+type ChildExit = {
+  index: number;
+  task: SupervisorTask;
+  failure?: {error: unknown};
+};
+
+/**
+ * Runs `children` in forks created with `fork` and restarts them once they
+ * fail. See `supervise`.
+ *
+ * `signal` must be the signal of the spawn that `fork` belongs to.
+ */
+export async function runSupervisor(
+  signal: AbortSignal,
+  fork: SupervisorFork,
+  children: SupervisedChild[],
+  options: SupervisorOptions,
+): Promise<void> {
+  const {
+    strategy = 'one-for-one',
+    maxRestarts = 3,
+    periodMs = 5000,
+    backoff = exponentialBackoff({baseMs: 100}),
+    onRestart,
+    clock = systemClock,
+  } = options;
+
+  if (!(maxRestarts >= 0)) {
+    throw new RangeError(`Invalid max restarts: ${maxRestarts}`);
+  }
+
+  const random = () => clock.random();
+
+  const exits = new Channel<ChildExit>(Infinity);
+
+  /**
+   * Running children, or `undefined` for children that are done or about to
+   * be restarted.
+   */
+  const tasks: Array<SupervisorTask | undefined> = [];
+  const done: boolean[] = children.map(() => false);
+
+  const startChild = (index: number) => {
+    const child = children[index];
+
+    const task: SupervisorTask = fork(
+      async signal => {
+        let failure: ChildExit['failure'];
+
+        try {
+          await child.fn(signal);
+        } catch (error) {
+          if (signal.aborted) {
+            throw error;
+          }
+
+          failure = {error};
+        }
+
+        await exits.send(signal, {index, task, failure});
+      },
+      {name: child.name, metadata: child.metadata},
+    );
+
+    tasks[index] = task;
+  };
+
+  const stopChild = async (index: number) => {
+    const task = tasks[index];
+
+    if (task == null) {
+      return;
+    }
+
+    tasks[index] = undefined;
+
+    task.abort();
+    await task.join().catch(() => {});
+  };
+
+  const restartTimes: number[] = [];
+  let previousDelayMs: number | undefined;
+
+  children.forEach((child, index) => {
+    startChild(index);
+  });
+
+  while (done.some(isDone => !isDone)) {
+    const result = await exits.receive(signal);
+    const exit = result.value!;
+
+    if (tasks[exit.index] !== exit.task) {
+      // child was aborted by supervisor
+      continue;
+    }
+
+    tasks[exit.index] = undefined;
+
+    if (exit.failure == null) {
+      done[exit.index] = true;
+      continue;
+    }
+
+    const now = clock.now();
+
+    while (restartTimes.length > 0 && now - restartTimes[0] >= periodMs) {
+      restartTimes.shift();
+    }
+
+    if (restartTimes.length >= maxRestarts) {
+      throw exit.failure.error;
+    }
+
+    const affected =
+      strategy === 'one-for-all'
+        ? children.map((child, index) => index)
+        : strategy === 'rest-for-one'
+        ? children.map((child, index) => index).slice(exit.index)
+        : [exit.index];
+
+    for (let i = affected.length - 1; i >= 0; i--) {
+      await stopChild(affected[i]);
+    }
+
+    onRestart?.(exit.failure.error, children[exit.index]);
+
+    const delayMs = backoff(restartTimes.length, {
+      previousDelayMs,
+      random,
+    });
+    previousDelayMs = delayMs;
+
+    restartTimes.push(now);
+
+    await delay(signal, delayMs, {clock});
+
+    for (const index of affected) {
+      if (!done[index]) {
+        startChild(index);
+      }
+    }
+  }
+}
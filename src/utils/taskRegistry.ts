@@ -0,0 +1,107 @@
+/**
+ * A live `spawn` or `fork` tracked for `getTaskTree`.
+ */
+export type TaskRecord = {
+  id: number;
+  kind: 'spawn' | 'fork';
+  name: string | undefined;
+  metadata: Record<string, unknown> | undefined;
+  /**
+   * Unix time in milliseconds.
+   */
+  startTime: number;
+  /**
+   * Signal that is aborted once the task starts shutting down.
+   */
+  signal: AbortSignal;
+  /**
+   * Whether the task finished and runs deferred functions.
+   */
+  cleaningUp: boolean;
+  /**
+   * Number of deferred functions that are registered but not finished yet.
+   */
+  pendingDeferreds: number;
+  parent: TaskRecord | undefined;
+  children: Set<TaskRecord>;
+};
+
+export const rootTasks = new Set<TaskRecord>();
+
+const tasksBySignal = new WeakMap<AbortSignal, TaskRecord>();
+
+let lastTaskId = 0;
+
+/**
+ * Starts tracking a task.
+ *
+ * The task becomes a child of the task that owns `parentSignal`, or a root
+ * task if the signal does not belong to any task.
+ */
+export function registerTask(
+  kind: TaskRecord['kind'],
+  parentSignal: AbortSignal,
+  signal: AbortSignal,
+  options: {name?: string; metadata?: Record<string, unknown>},
+): TaskRecord {
+  const parent = tasksBySignal.get(parentSignal);
+
+  const record: TaskRecord = {
+    id: ++lastTaskId,
+    kind,
+    name: options.name,
+    metadata: options.metadata,
+    startTime: Date.now(),
+    signal,
+    cleaningUp: false,
+    pendingDeferreds: 0,
+    parent,
+    children: new Set(),
+  };
+
+  if (parent != null) {
+    parent.children.add(record);
+  } else {
+    rootTasks.add(record);
+  }
+
+  return record;
+}
+
+/**
+ * Makes tasks started with `signal` children of `record`.
+ */
+export function bindTaskSignal(signal: AbortSignal, record: TaskRecord): void {
+  tasksBySignal.set(signal, record);
+}
+
+/**
+ * Stops tracking a finished task.
+ *
+ * Children that are still running, e.g. detached forks, are moved to the
+ * parent of the task, or become root tasks, so that they stay visible. Tasks
+ * started later with the signal of the task are attached there as well.
+ */
+export function unregisterTask(record: TaskRecord): void {
+  const {parent} = record;
+
+  if (parent != null) {
+    parent.children.delete(record);
+    tasksBySignal.set(record.signal, parent);
+  } else {
+    rootTasks.delete(record);
+    tasksBySignal.delete(record.signal);
+  }
+
+  for (const child of record.children) {
+    child.parent = parent;
+
+    if (parent != null) {
+      parent.children.add(child);
+    } else {
+      rootTasks.add(child);
+    }
+  }
+
+  record.children.clear();
+}